@@ -1,6 +1,11 @@
 import { AppRegistry, LogBox } from 'react-native';
 import App from './src/App';
 import { name as appName } from './app.json';
+import { logger } from './src/services/Logger';
+import { setupLogging } from './src/services/LogTransports';
+
+// ── Logging (before anything can fail) ─────────────────────────
+setupLogging();
 
 // ── Suppress non-critical warnings in production ───────────────
 LogBox.ignoreAllLogs(true);
@@ -10,7 +15,7 @@ LogBox.ignoreAllLogs(true);
 const defaultHandler = ErrorUtils.getGlobalHandler();
 ErrorUtils.setGlobalHandler((error, isFatal) => {
     // Log but don't crash — the app will try to recover
-    console.error('[GlobalError]', isFatal ? 'FATAL' : 'non-fatal', error?.message);
+    logger.error('GlobalError', isFatal ? 'Fatal JS error' : 'Non-fatal JS error', { error: error?.message });
 
     // For non-fatal errors, swallow and continue
     if (!isFatal) return;
@@ -27,7 +32,7 @@ ErrorUtils.setGlobalHandler((error, isFatal) => {
 if (typeof global !== 'undefined') {
     const originalRejection = global.onunhandledrejection;
     global.onunhandledrejection = (event) => {
-        console.warn('[UnhandledRejection]', event?.reason?.message || event?.reason);
+        logger.warn('UnhandledRejection', 'Unhandled promise rejection', { reason: event?.reason?.message || event?.reason });
         // Don't propagate — prevents crash
         if (originalRejection) originalRejection(event);
     };
@@ -1,26 +1,144 @@
 /**
  * App.tsx — Root component / state machine
  *
- * States: loading → pairing → playing | sleeping
+ * States: loading → pairing → playing | sleeping, with an emergency alert
+ * taking over any of them until it is cleared or expires.
+ * The local schedule can put a playing screen to sleep, even offline,
+ * as can a playlist whose items are all outside their dayparting windows.
+ * A layout splits the screen into zones, each playing its own playlist;
+ * without one the playlist fills the screen as a single zone. Overlay
+ * widgets (clock, logo, ticker, QR) draw above the zones.
+ * On boot the last accepted playlist is restored and played from cache
+ * before the server answers.
  *
  * Ported from digital-sign/app/player/page.tsx
  * with React Native adaptations.
  */
 
-import React, { useEffect, useState, useRef, useCallback } from 'react';
-import { StatusBar, AppState, AppStateStatus, NativeModules } from 'react-native';
+import React, { useEffect, useState, useRef, useCallback, useMemo } from 'react';
+import {
+    StatusBar,
+    AppState,
+    AppStateStatus,
+    NativeModules,
+    StyleSheet,
+    View,
+    ViewStyle,
+} from 'react-native';
 import KeepAwake from 'react-native-keep-awake';
 import { ErrorBoundary } from './components/ErrorBoundary';
+import { OverlayLayer } from './components/OverlayLayer';
 import { socketService } from './services/SocketService';
-import { cacheService } from './services/CacheService';
-import {
-    sendDiscordLog,
-    setDeviceInfo,
-} from './services/DiscordLogger';
+import { cacheService, toQueueItem } from './services/CacheService';
+import { isItemActive, scheduleService } from './services/ScheduleService';
+import { syncService } from './services/SyncService';
+import { clockService } from './services/ClockService';
+import { proofOfPlayService } from './services/ProofOfPlayService';
+import { statusService } from './services/StatusService';
+import { settingsService } from './services/SettingsService';
+import { isContentMessage } from './services/MessageValidator';
+import { logger, errorMessage } from './services/Logger';
+import { logFileService } from './services/LogFileService';
 import { PairingScreen } from './screens/PairingScreen';
-import { PlayerScreen } from './screens/PlayerScreen';
+import { PlayerScreen, PlaybackReport } from './screens/PlayerScreen';
 import { SleepScreen } from './screens/SleepScreen';
-import { AppState as SignageAppState, VideoSource, Orientation, WebSocketMessage } from './types';
+import { AlertScreen } from './screens/AlertScreen';
+import {
+    AppState as SignageAppState,
+    VideoSource,
+    Orientation,
+    Schedule,
+    Layout,
+    LayoutZone,
+    OverlayConfig,
+    EmergencyAlert,
+    SyncGroup,
+    WebSocketMessage,
+    GetLogsPayload,
+    CommandResult,
+} from './types';
+
+// How often to re-check whether any dayparted item has become valid
+const CONTENT_CHECK_INTERVAL_MS = 30000;
+// How often to check whether the active emergency alert has expired
+const ALERT_CHECK_INTERVAL_MS = 1000;
+// How often to check for the 3 AM reset
+const RESET_CHECK_INTERVAL_MS = 30000;
+// A reset time passed by more than this was jumped over by a clock
+// correction (e.g. from 1970): reschedule instead of resetting
+const RESET_LATE_TOLERANCE_MS = 10 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Zone id used when no layout is set and the playlist fills the screen
+const FULL_SCREEN_ZONE_ID = 'main';
+// A content command is acked as failed if nothing plays within this
+const PLAYBACK_ACK_TIMEOUT_MS = 60000;
+
+// Item a zone is playing, tied to the playlist it indexes into
+interface ZonePosition {
+    playlist: VideoSource[];
+    index: number;
+}
+
+// Content command waiting for its players to start (see waitForPlayback)
+interface PlaybackWaiter {
+    // Only players mounted after this count
+    since: number;
+    zoneIds: Set<string>;
+    idleZoneIds: Set<string>;
+    errors: string[];
+    resolve: (result: CommandResult) => void;
+}
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, Number(value) || 0));
+
+/**
+ * Zones to render: the layout's zones, or one full-screen zone playing the
+ * plain playlist. Rects are clamped to the screen; empty zones are dropped.
+ */
+const resolveZones = (layout: Layout | null, playlist: VideoSource[]): LayoutZone[] => {
+    if (!layout || !Array.isArray(layout.zones) || layout.zones.length === 0) {
+        return [{ id: FULL_SCREEN_ZONE_ID, x: 0, y: 0, width: 1, height: 1, playlist }];
+    }
+
+    return layout.zones
+        .map((zone, index) => {
+            const x = clamp01(zone.x);
+            const y = clamp01(zone.y);
+            return {
+                ...zone,
+                id: zone.id || `zone-${index}`,
+                x,
+                y,
+                width: Math.min(clamp01(zone.width), 1 - x),
+                height: Math.min(clamp01(zone.height), 1 - y),
+                playlist: Array.isArray(zone.playlist) ? zone.playlist : [],
+            };
+        })
+        .filter((zone) => zone.width > 0 && zone.height > 0);
+};
+
+// Next 3:00 AM local time after `now`
+const nextResetTime = (now: Date): number => {
+    const target = new Date(now.getTime());
+    target.setHours(3, 0, 0, 0);
+    if (now >= target) {
+        target.setDate(target.getDate() + 1);
+    }
+    return target.getTime();
+};
+
+const hasContent = (zones: LayoutZone[]): boolean =>
+    zones.some((zone) => zone.playlist.length > 0);
+
+const zoneStyle = (zone: LayoutZone): ViewStyle => ({
+    position: 'absolute',
+    left: `${zone.x * 100}%`,
+    top: `${zone.y * 100}%`,
+    width: `${zone.width * 100}%`,
+    height: `${zone.height * 100}%`,
+    zIndex: zone.zIndex ?? 0,
+    overflow: 'hidden',
+});
 
 const App: React.FC = () => {
     // ── State ────────────────────────────────────────────────────
@@ -30,20 +148,131 @@ const App: React.FC = () => {
     const [deviceCode, setDeviceCode] = useState('');
     const [deviceName, setDeviceName] = useState('');
     const [playlist, setPlaylist] = useState<VideoSource[]>([]);
+    const [nextPlaylist, setNextPlaylist] = useState<VideoSource[]>([]);
+    const [layout, setLayout] = useState<Layout | null>(null);
+    const [overlay, setOverlay] = useState<OverlayConfig | null>(null);
+    const [alert, setAlert] = useState<EmergencyAlert | null>(null);
+    const [sync, setSync] = useState<SyncGroup | null>(null);
     const [orientation, setOrientation] = useState<Orientation>('0');
     const [playerKey, setPlayerKey] = useState(0);
+    const [schedule, setSchedule] = useState<Schedule | null>(null);
+    const [scheduleAwake, setScheduleAwake] = useState(true);
+    // Zones with nothing valid to play right now (not rendered)
+    const [idleZones, setIdleZones] = useState<string[]>([]);
 
+    const appStateRef = useRef<SignageAppState>('loading');
     const playlistRef = useRef<VideoSource[]>([]);
+    const layoutRef = useRef<Layout | null>(null);
+    const alertRef = useRef<EmergencyAlert | null>(null);
+    // Current item per zone, and the snapshot players resume from after an alert
+    const zonePositionsRef = useRef<Record<string, ZonePosition>>({});
+    const resumePositionsRef = useRef<Record<string, ZonePosition>>({});
     const orientationRef = useRef<Orientation>('0');
+    const restoredRef = useRef(false);
+    // What the screen shows (heartbeat status)
+    const displayStateRef = useRef<SignageAppState>('loading');
+    const playbackWaitersRef = useRef<PlaybackWaiter[]>([]);
+
+    useEffect(() => {
+        appStateRef.current = appState;
+    }, [appState]);
 
     useEffect(() => {
         playlistRef.current = playlist;
     }, [playlist]);
 
+    useEffect(() => {
+        layoutRef.current = layout;
+    }, [layout]);
+
+    useEffect(() => {
+        alertRef.current = alert;
+    }, [alert]);
+
     useEffect(() => {
         orientationRef.current = orientation;
     }, [orientation]);
 
+    useEffect(() => {
+        scheduleService.setSchedule(schedule);
+    }, [schedule]);
+
+    // Players follow the group timeline live; no remount needed
+    useEffect(() => {
+        syncService.setGroup(sync);
+    }, [sync]);
+
+    const zones = useMemo(() => resolveZones(layout, playlist), [layout, playlist]);
+
+    // ── Dayparting: hide zones with no valid item, sleep if all are ──
+    useEffect(() => {
+        const check = () => {
+            const now = clockService.date();
+            const idle = zones
+                .filter((zone) => !zone.playlist.some((item) => isItemActive(item, now)))
+                .map((zone) => zone.id);
+            setIdleZones((prev) => (prev.join('\n') === idle.join('\n') ? prev : idle));
+        };
+        check();
+        const interval = setInterval(check, CONTENT_CHECK_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [zones]);
+
+    // ── Prefetch (and pin) current + next playlist in the background ──
+    useEffect(() => {
+        cacheService.setOrientation(orientation);
+        // Web pages load live; only media files are cached.
+        // Zones share one cache, so an item used by several zones queues once.
+        const toQueue = (items: VideoSource[]) => {
+            const seen = new Set<string>();
+            return items
+                .filter((item) => item.type !== 'web')
+                .map((item) => toQueueItem(item, orientation))
+                .filter((item) => {
+                    if (seen.has(item.url)) return false;
+                    seen.add(item.url);
+                    return true;
+                });
+        };
+        // Overlay logos are cached (and pinned) alongside the playlists
+        const logos: VideoSource[] = (overlay?.widgets || []).flatMap((widget) =>
+            widget.type === 'logo' && widget.url ? [{ url: widget.url, type: 'image' }] : [],
+        );
+        const alertMedia = alert?.media?.url ? [alert.media] : [];
+        const current = [...alertMedia, ...zones.flatMap((zone) => zone.playlist), ...logos];
+        cacheService.syncQueue(toQueue(current), toQueue(nextPlaylist));
+    }, [zones, overlay, alert, nextPlaylist, orientation]);
+
+    // ── Persist last accepted state (offline-first boot) ───────────
+    useEffect(() => {
+        // Don't overwrite the saved state with defaults before it was restored
+        if (!restoredRef.current) return;
+        socketService.savePlayerState({
+            playlist,
+            layout,
+            overlay,
+            alert,
+            sync,
+            orientation,
+            schedule,
+            savedAt: Date.now(),
+        });
+    }, [playlist, layout, overlay, alert, sync, orientation, schedule]);
+
+    // ── Emergency alert expiry ─────────────────────────────────────
+    useEffect(() => {
+        const expiresAt = alert?.expiresAt;
+        if (!expiresAt) return;
+
+        // Poll rather than one long timer: survives clock corrections
+        const check = () => {
+            if (clockService.now() >= expiresAt) endAlert('expired');
+        };
+        check();
+        const interval = setInterval(check, ALERT_CHECK_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [alert]);
+
     // ── Initialize ─────────────────────────────────────────────────
     useEffect(() => {
         // Hide status bar for kiosk mode
@@ -52,22 +281,63 @@ const App: React.FC = () => {
         // Initialize cache
         cacheService.init();
 
+        // Player tuning last pushed by the server (defaults until loaded)
+        const settingsLoaded = settingsService.init();
+        const unregisterSettingsStatus = statusService.register('settings', () => ({
+            settings: settingsService.get(),
+        }));
+
+        // Load proof-of-play records not yet confirmed by the server
+        proofOfPlayService.init();
+
+        // Enforce the last known schedule locally (works without the socket)
+        scheduleService.onChange(setScheduleAwake);
+        scheduleService.init();
+
         // Set up socket message handler
         socketService.onMessage(handleMessage);
+        const unregisterStatus = statusService.register('app', () => {
+            const nextTransition = scheduleService.getNextTransition();
+            return {
+                appState: displayStateRef.current,
+                scheduleAwake: scheduleService.isAwake(),
+                layoutId: layoutRef.current?.id ?? null,
+                alertId: alertRef.current?.id ?? null,
+                syncGroup: syncService.getGroup()?.id ?? null,
+                clock: clockService.getStatus(),
+                pendingPlayRecords: proofOfPlayService.getPendingCount(),
+                nextTransition: nextTransition ? nextTransition.toISOString() : null,
+            };
+        });
         socketService.onConnectionChange((connected) => {
             if (connected) {
                 // Re-sync on reconnect is handled by SocketService
+                reportCacheInventory();
+                // Upload plays recorded while offline
+                proofOfPlayService.flush();
             }
         });
 
-        // Connect
-        socketService.connect();
+        // Push cache/download progress to the dashboard as it changes
+        cacheService.onInventoryChange((inventory) => {
+            socketService.sendCacheInventory(inventory);
+        });
+
+        // Resume the last playlist from cache, then connect and reconcile.
+        // Saved settings must be loaded first so a pushed update isn't overwritten.
+        Promise.all([settingsLoaded, restorePlayerState()]).finally(() => {
+            socketService.connect();
+        });
 
         // Schedule daily 3AM reset
         scheduleDailyReset();
 
         return () => {
             socketService.disconnect();
+            scheduleService.stop();
+            proofOfPlayService.stop();
+            unregisterStatus();
+            unregisterSettingsStatus();
         };
     }, []);
 
@@ -81,24 +351,224 @@ const App: React.FC = () => {
         return () => sub.remove();
     }, []);
 
+    // ── Cache inventory report ─────────────────────────────────────
+    const reportCacheInventory = () => {
+        cacheService
+            .getInventory()
+            .then((inventory) => socketService.sendCacheInventory(inventory))
+            .catch(() => { });
+    };
+
+    // ── Log upload (remote diagnosis) ──────────────────────────────
+    const uploadLogs = async (payload: GetLogsPayload, requestId?: string) => {
+        // Log lines carry device time; the request's range is server time
+        const { offsetMs } = clockService.getStatus();
+        const since = typeof payload.since === 'number' ? payload.since - offsetMs : undefined;
+        const until = typeof payload.until === 'number' ? payload.until - offsetMs : undefined;
+        const lines = typeof payload.lines === 'number' ? payload.lines : undefined;
+
+        const result = await logFileService.read({ lines, since, until });
+        logger.info('App', 'Uploading log file', { lines: result.lines.length, truncated: result.truncated });
+        socketService.sendLogFile({
+            requestId: requestId ?? payload.requestId,
+            lines: result.lines,
+            truncated: result.truncated,
+            since: payload.since,
+            until: payload.until,
+        });
+    };
+
+    // ── Offline-first boot ─────────────────────────────────────────
+    const restorePlayerState = async () => {
+        try {
+            // Only paired devices resume content
+            if (!(await socketService.hasCredentials())) return;
+
+            const saved = await socketService.loadPlayerState();
+            if (!saved) return;
+
+            logger.info('Persistence', 'Restoring player state', { savedAt: new Date(saved.savedAt).toISOString() });
+            setOrientation(saved.orientation || '0');
+            setSchedule(saved.schedule || null);
+            setOverlay(saved.overlay || null);
+            // An unexpired alert comes back even without content (expiry effect drops stale ones)
+            setAlert(saved.alert || null);
+            setSync(saved.sync || null);
+            const savedPlaylist = Array.isArray(saved.playlist) ? saved.playlist : [];
+            const savedLayout = saved.layout || null;
+            if (hasContent(resolveZones(savedLayout, savedPlaylist))) {
+                setPlaylist(savedPlaylist);
+                setLayout(savedLayout);
+                setPlayerKey((prev) => prev + 1);
+                setAppState('playing');
+            }
+        } catch (err: any) {
+            logger.error('Persistence', 'Failed to restore player state', { error: errorMessage(err) });
+        } finally {
+            restoredRef.current = true;
+        }
+    };
+
+    // ── Smart content sync ─────────────────────────────────────────
+    // Only resets the players if the playlist or layout actually changed, so
+    // restored content keeps playing when the server confirms it.
+    // Returns whether the players restart with the new content
+    const syncContent = (newPlaylist: VideoSource[], newLayout: Layout | null = layoutRef.current): boolean => {
+        // Compare whole items: type/duration changes count too, not just URLs
+        const unchanged =
+            JSON.stringify(playlistRef.current) === JSON.stringify(newPlaylist) &&
+            JSON.stringify(layoutRef.current) === JSON.stringify(newLayout);
+
+        if (unchanged && appStateRef.current === 'playing') return false;
+
+        setPlaylist(newPlaylist);
+        setLayout(newLayout);
+        if (hasContent(resolveZones(newLayout, newPlaylist))) {
+            setPlayerKey((prev) => prev + 1);
+            setAppState('playing');
+            return true;
+        }
+        setAppState('sleeping');
+        return false;
+    };
+
+    // ── Command acks: wait until new content is actually on screen ──
+    const waitForPlayback = (zones: LayoutZone[]): Promise<CommandResult> => {
+        // Applied, but nothing will start now; say why
+        if (alertRef.current) {
+            return Promise.resolve({ success: true, details: { started: false, reason: 'emergency alert active' } });
+        }
+        if (!scheduleService.isAwake()) {
+            return Promise.resolve({ success: true, details: { started: false, reason: 'outside schedule' } });
+        }
+        if (!hasContent(zones)) {
+            return Promise.resolve({ success: true, details: { started: false, reason: 'no content' } });
+        }
+
+        // Zones with every item outside its window are never rendered, so
+        // they won't report; they count as settled from the start
+        const now = clockService.date();
+        const idleZoneIds = new Set(
+            zones
+                .filter((zone) => !zone.playlist.some((item) => isItemActive(item, now)))
+                .map((zone) => zone.id),
+        );
+        if (idleZoneIds.size >= zones.length) {
+            return Promise.resolve({ success: true, details: { started: false, reason: 'idle until window' } });
+        }
+
+        return new Promise((resolve) => {
+            const waiter: PlaybackWaiter = {
+                since: Date.now(),
+                zoneIds: new Set(zones.map((zone) => zone.id)),
+                idleZoneIds,
+                errors: [],
+                resolve: (result) => {
+                    clearTimeout(timer);
+                    playbackWaitersRef.current = playbackWaitersRef.current.filter((w) => w !== waiter);
+                    resolve(result);
+                },
+            };
+            const timer = setTimeout(() => {
+                const lastError = waiter.errors[waiter.errors.length - 1];
+                waiter.resolve({
+                    success: false,
+                    error: lastError
+                        ? `Playback did not start: ${lastError}`
+                        : `Playback did not start within ${PLAYBACK_ACK_TIMEOUT_MS / 1000}s`,
+                    details: { errors: waiter.errors },
+                });
+            }, PLAYBACK_ACK_TIMEOUT_MS);
+            playbackWaitersRef.current = [...playbackWaitersRef.current, waiter];
+        });
+    };
+
+    const handlePlaybackReport = useCallback((report: PlaybackReport) => {
+        for (const waiter of playbackWaitersRef.current) {
+            // A player from before the command (still unmounting)
+            if (report.mountedAt < waiter.since) continue;
+
+            if (report.started) {
+                waiter.resolve({
+                    success: true,
+                    details: {
+                        started: true,
+                        zoneId: report.zoneId,
+                        itemId: report.itemId,
+                        url: report.url,
+                        // Items that failed before this one played
+                        errors: waiter.errors,
+                    },
+                });
+            } else {
+                waiter.errors.push(report.error);
+            }
+        }
+    }, []);
+
+    // ── Emergency alerts ───────────────────────────────────────────
+    // Returns false for an alert that has already expired
+    const startAlert = (newAlert: EmergencyAlert): boolean => {
+        if (newAlert.expiresAt && clockService.now() >= newAlert.expiresAt) {
+            logger.warn('Alert', 'Ignoring expired alert', { id: newAlert.id });
+            return false;
+        }
+
+        // Remember where each zone was; a replacement alert keeps the first snapshot
+        if (!alertRef.current) {
+            resumePositionsRef.current = { ...zonePositionsRef.current };
+        }
+
+        logger.warn('Alert', '🚨 Emergency Alert', {
+            detail: `**${newAlert.title || 'Alert'}**\n${newAlert.message || ''}`,
+            ID: newAlert.id,
+        });
+        alertRef.current = newAlert;
+        setAlert(newAlert);
+        return true;
+    };
+
+    const endAlert = (reason: string) => {
+        const current = alertRef.current;
+        if (!current) return;
+
+        logger.notice('Alert', '✅ Emergency Alert Ended', { ID: current.id, Reason: reason });
+        alertRef.current = null;
+        setAlert(null);
+    };
+
+    // ── Zone position tracking (resume after an alert) ─────────────
+    const handleZoneIndex = (zone: LayoutZone, index: number) => {
+        zonePositionsRef.current[zone.id] = { playlist: zone.playlist, index };
+        // A mounted player has used its resume point
+        delete resumePositionsRef.current[zone.id];
+    };
+
+    const resumeIndexFor = (zone: LayoutZone): number | undefined => {
+        const position = resumePositionsRef.current[zone.id];
+        // Only resume into the same content; a changed playlist starts over
+        return position && position.playlist === zone.playlist ? position.index : undefined;
+    };
+
     // ── 3AM Daily Hard Reset ───────────────────────────────────────
+    // Polls the server-corrected clock: a single long timer would keep
+    // whatever device time was current at boot.
     const scheduleDailyReset = () => {
-        const now = new Date();
         // Target: 3:00 AM local time (device timezone)
-        const target = new Date();
-        target.setHours(3, 0, 0, 0);
-        if (now > target) {
-            target.setDate(target.getDate() + 1);
-        }
+        let target = nextResetTime(clockService.date());
 
-        const msUntilReset = target.getTime() - now.getTime();
+        const interval = setInterval(() => {
+            const now = clockService.now();
 
-        setTimeout(() => {
-            sendDiscordLog(
-                '🌙 Daily Maintenance',
-                'Executing scheduled 3:00 AM Hard Reset.',
-                5763719,
-            );
+            // Clock corrected since the target was set: pick the right 3 AM
+            if (now - target > RESET_LATE_TOLERANCE_MS || target - now > DAY_MS) {
+                target = nextResetTime(clockService.date());
+                return;
+            }
+            if (now < target) return;
+
+            clearInterval(interval);
+            logger.notice('App', '🌙 Daily Maintenance', { detail: 'Executing scheduled 3:00 AM Hard Reset.' });
 
             // Restart the app
             setTimeout(() => {
@@ -108,164 +578,244 @@ const App: React.FC = () => {
                     NativeModules.DevSettings?.reload?.();
                 }
             }, 1000);
-        }, msUntilReset);
+        }, RESET_CHECK_INTERVAL_MS);
     };
 
     // ── Socket Message Handler ─────────────────────────────────────
+    // Resolves with the command's outcome (acked when it has a requestId)
     const handleMessage = useCallback(
-        async (message: WebSocketMessage) => {
+        async (message: WebSocketMessage): Promise<CommandResult> => {
             try {
+                let result: CommandResult = { success: true };
+                // Content the players restart with; its ack waits for playback
+                let startedZones: LayoutZone[] | null = null;
+
+                const extras = isContentMessage(message) ? message.payload : undefined;
+                if (extras?.nextPlaylist) {
+                    setNextPlaylist(extras.nextPlaylist);
+                }
+
+                // Video wall membership can ride along with any content message
+                if (extras?.syncGroup !== undefined) {
+                    const { syncGroup, startTime } = extras;
+                    if (!syncGroup) {
+                        setSync(null);
+                    } else if (typeof startTime === 'number') {
+                        // Keep the same object for repeats (heartbeat replies) to avoid re-persisting
+                        setSync((prev) =>
+                            prev && prev.id === syncGroup && prev.startTime === startTime
+                                ? prev
+                                : { id: syncGroup, startTime },
+                        );
+                    } else {
+                        logger.warn('Sync', 'Ignoring sync group without startTime', { group: syncGroup });
+                    }
+                }
+
                 switch (message.type) {
                     // ── Registration (New device, no token) ──
                     case 'register':
-                        if (message.payload?.code) {
-                            setPairingCode(message.payload.code);
-                            setAppState('pairing');
-                        }
+                        setPairingCode(message.payload.code);
+                        setAppState('pairing');
                         break;
 
                     // ── Paired (Dashboard claimed this device) ──
-                    case 'paired':
-                        if (message.payload) {
-                            const { id, code, name, token } = message.payload as any;
-                            setDeviceId(id || '');
-                            setDeviceCode(code || '');
-                            setDeviceName(name || '');
-                            setDeviceInfo({ name: name || '', code: code || '', id: id || '' });
-                            await socketService.saveCredentials({ id, code, name, token });
-                            socketService.startHeartbeat();
-                            setAppState('sleeping'); // Wait for playlist
-                        }
+                    case 'paired': {
+                        const { id, code = '', name = '', token } = message.payload;
+                        setDeviceId(id);
+                        setDeviceCode(code);
+                        setDeviceName(name);
+                        logger.setDeviceInfo({ name, code, id });
+                        await socketService.saveCredentials({ id, code, name, token });
+                        socketService.startHeartbeat();
+                        setAppState('sleeping'); // Wait for playlist
                         break;
+                    }
 
                     // ── Auth (Returning device, token recognized) ──
-                    case 'auth':
-                        if (message.payload) {
-                            // Reset unpair retry counter on successful auth
-                            socketService._unpairRetryCount = 0;
-                            const p = message.payload as any;
-                            setDeviceId(p.id || '');
-                            setDeviceCode(p.code || '');
-                            setDeviceName(p.name || '');
-                            setOrientation(p.orientation || '0');
-                            setDeviceInfo({
-                                name: p.name || '',
-                                code: p.code || '',
-                                id: p.id || '',
-                            });
-
-                            socketService.startHeartbeat();
-
-                            // Handle playlist from auth
-                            if (p.playlist && Array.isArray(p.playlist) && p.playlist.length > 0) {
-                                setPlaylist(p.playlist);
-                                setPlayerKey((prev) => prev + 1);
-                                setAppState('playing');
-                            } else {
-                                setAppState('sleeping');
-                            }
+                    case 'auth': {
+                        // Reset unpair retry counter on successful auth
+                        socketService._unpairRetryCount = 0;
+                        const p = message.payload;
+                        if (p.settings !== undefined) {
+                            await settingsService.apply(p.settings);
+                        }
+                        setDeviceId(p.id || '');
+                        setDeviceCode(p.code || '');
+                        setDeviceName(p.name || '');
+                        const authOrientation: Orientation = p.orientation || '0';
+                        if (authOrientation !== orientationRef.current) {
+                            setOrientation(authOrientation);
+                            setPlayerKey((prev) => prev + 1);
+                        }
+                        if (p.schedule !== undefined) {
+                            setSchedule(p.schedule || null);
+                        }
+                        logger.setDeviceInfo({
+                            name: p.name || '',
+                            code: p.code || '',
+                            id: p.id || '',
+                        });
+
+                        socketService.startHeartbeat();
+
+                        // Handle content from auth (reconciles with restored state)
+                        const authPlaylist = p.playlist || [];
+                        const authLayout = p.layout !== undefined ? p.layout : layoutRef.current;
+                        if (syncContent(authPlaylist, authLayout)) {
+                            startedZones = resolveZones(authLayout, authPlaylist);
                         }
                         break;
+                    }
 
                     // ── Play single video ──
-                    case 'play':
-                        if (message.payload?.url) {
-                            const singleVideo: VideoSource = { url: message.payload.url };
-                            setPlaylist([singleVideo]);
-                            setPlayerKey((prev) => prev + 1);
-                            setAppState('playing');
-                        }
+                    case 'play': {
+                        const singleVideo: VideoSource = { url: message.payload.url };
+                        setPlaylist([singleVideo]);
+                        setLayout(null);
+                        setPlayerKey((prev) => prev + 1);
+                        setAppState('playing');
+                        startedZones = resolveZones(null, [singleVideo]);
                         break;
+                    }
 
                     // ── Stop playback ──
                     case 'stop':
                         setPlaylist([]);
+                        setLayout(null);
                         setAppState('sleeping');
                         break;
 
                     // ── Hibernate (server-driven sleep) ──
                     case 'hibernate':
                         setPlaylist([]);
+                        setLayout(null);
                         setAppState('sleeping');
                         break;
 
-                    // ── Playlist update ──
-                    case 'play_list':
-                        if (message.payload?.playlist) {
-                            const newPlaylist = message.payload.playlist;
+                    // ── Playlist update (full screen, replaces any layout) ──
+                    case 'play_list': {
+                        const newPlaylist = message.payload.playlist;
+                        setLayout(null);
 
-                            if (newPlaylist.length > 0) {
-                                setPlaylist(newPlaylist);
-                                setPlayerKey((prev) => prev + 1);
-                                setAppState('playing');
-                            } else {
-                                setPlaylist([]);
-                                setAppState('sleeping');
-                            }
+                        if (newPlaylist.length > 0) {
+                            setPlaylist(newPlaylist);
+                            setPlayerKey((prev) => prev + 1);
+                            setAppState('playing');
+                            startedZones = resolveZones(null, newPlaylist);
+                        } else {
+                            setPlaylist([]);
+                            setAppState('sleeping');
                         }
                         break;
+                    }
 
                     // ── Sync state (heartbeat response with latest state) ──
-                    case 'sync_state':
-                        if (message.payload?.orientation !== undefined) {
-                            const newOrientation = String(message.payload.orientation) as Orientation;
+                    case 'sync_state': {
+                        const p = message.payload;
+                        if (p.settings !== undefined) {
+                            await settingsService.apply(p.settings);
+                        }
+                        if (p.orientation !== undefined) {
+                            const newOrientation: Orientation = p.orientation || '0';
                             if (newOrientation !== orientationRef.current) {
-                                console.log('[Orientation] Changed:', orientationRef.current, '→', newOrientation);
+                                logger.info('Orientation', 'Changed', { from: orientationRef.current, to: newOrientation });
                                 setOrientation(newOrientation);
-                                // Clear cache (old videos are for wrong rotation) and restart player
-                                cacheService.clearAll();
+                                // Restart player; old renditions stay cached as eviction candidates
                                 setPlayerKey((prev) => prev + 1);
                             }
                         }
 
-                        if (message.payload?.playlist) {
-                            const newPlaylist = message.payload.playlist;
-
-                            // Smart sync: only reset player if playlist actually changed
-                            const currentUrls = playlistRef.current.map((v) => v.url).join('|');
-                            const newUrls = newPlaylist.map((v: any) => v.url).join('|');
-
-                            if (currentUrls !== newUrls) {
-                                if (newPlaylist.length > 0) {
-                                    setPlaylist(newPlaylist);
-                                    setPlayerKey((prev) => prev + 1);
-                                    setAppState('playing');
-                                } else {
-                                    setPlaylist([]);
-                                    setAppState('sleeping');
-                                }
+                        if (p.schedule !== undefined) {
+                            setSchedule(p.schedule);
+                        }
+
+                        if (p.playlist || p.layout !== undefined) {
+                            // Smart sync: only reset players if content actually changed
+                            const syncPlaylist = p.playlist || playlistRef.current;
+                            const syncLayout = p.layout !== undefined ? p.layout : layoutRef.current;
+                            if (syncContent(syncPlaylist, syncLayout)) {
+                                startedZones = resolveZones(syncLayout, syncPlaylist);
                             }
                         }
                         break;
+                    }
+
+                    // ── Device settings (tuning, applied live and persisted) ──
+                    case 'settings_update': {
+                        const applied = await settingsService.apply(message.payload.settings);
+                        result = { success: true, details: { settings: applied.settings, warnings: applied.warnings } };
+                        break;
+                    }
+
+                    // ── Overlay widgets (live: the players keep running) ──
+                    case 'overlay_update':
+                        setOverlay(message.payload.overlay);
+                        break;
+
+                    // ── Emergency alert (overrides content and schedule) ──
+                    case 'alert':
+                        if (!startAlert(message.payload.alert)) {
+                            result = { success: false, error: 'Alert already expired' };
+                        }
+                        break;
+
+                    case 'clear_alert': {
+                        const alertId = message.payload?.alertId;
+                        if (!alertId || alertRef.current?.id === alertId) {
+                            endAlert('cleared from dashboard');
+                        }
+                        break;
+                    }
+
+                    // ── Layout update (multi-zone; null = full-screen playlist) ──
+                    case 'layout_update':
+                        if (syncContent(playlistRef.current, message.payload.layout)) {
+                            startedZones = resolveZones(message.payload.layout, playlistRef.current);
+                        }
+                        break;
 
                     // ── Unpair ──
                     case 'unpair':
                         // Retry before clearing — handles server restart races
                         if (!socketService._unpairRetryCount) {
                             socketService._unpairRetryCount = 1;
-                            console.warn('[Socket] Received unpair. Retrying auth in 10s before clearing...');
+                            logger.warn('Socket', 'Received unpair. Retrying auth in 10s before clearing...');
                             socketService.disconnect();
                             await new Promise(r => setTimeout(r, 10000));
                             // Re-connect using saved credentials from storage
                             await socketService.connect();
                         } else {
                             // Second unpair — device was genuinely deleted
-                            console.log('[Socket] Second unpair received. Clearing credentials.');
+                            logger.notice('Socket', 'Second unpair received. Clearing credentials.');
                             socketService._unpairRetryCount = 0;
                             await socketService.clearCredentials();
+                            // Forget content too (persisted by the state effect)
+                            setPlaylist([]);
+                            setLayout(null);
+                            setOverlay(null);
+                            setAlert(null);
+                            setSync(null);
+                            setSchedule(null);
                             socketService.disconnect();
                             setAppState('loading');
                             socketService.connect();
                         }
                         break;
 
+                    // ── Cache inventory (dashboard "ready" percentage) ──
+                    case 'get_cache_inventory':
+                        reportCacheInventory();
+                        break;
+
+                    // ── Log upload (support diagnosing a screen remotely) ──
+                    case 'get_logs':
+                        await uploadLogs(message.payload || {}, message.requestId);
+                        break;
+
                     // ── Reset (manual from dashboard) ──
                     case 'reset':
-                        sendDiscordLog(
-                            '🔄 Manual Reset',
-                            'Manual reset signal received from dashboard.',
-                            16744192,
-                        );
+                        logger.warn('App', '🔄 Manual Reset', { detail: 'Manual reset signal received from dashboard.' });
                         setTimeout(() => {
                             if (NativeModules.RestartModule) {
                                 NativeModules.RestartModule.restart();
@@ -275,12 +825,20 @@ const App: React.FC = () => {
                         }, 1000);
                         break;
 
-                    // ── Schedule update (info only) ──
+                    // ── Schedule update (enforced locally by ScheduleService) ──
                     case 'schedule_update':
+                        setSchedule(message.payload.schedule);
                         break;
                 }
+
+                // Acked commands that (re)start content succeed once something plays
+                if (startedZones && message.requestId) {
+                    return await waitForPlayback(startedZones);
+                }
+                return result;
             } catch (err: any) {
-                console.error('[handleMessage]', err?.message);
+                logger.error('App', 'Failed to handle message', { error: errorMessage(err) });
+                return { success: false, error: errorMessage(err) };
             }
         },
         [],
@@ -289,53 +847,101 @@ const App: React.FC = () => {
     // ── Player refresh handler ─────────────────────────────────────
     const handleRefresh = useCallback(
         (reason: string) => {
-            if (reason.includes('Watchdog')) {
-                sendDiscordLog(
-                    '⚠️ Watchdog Recovery',
-                    `Player stuck triggered reset.\n**Reason:** ${reason}`,
-                    16776960,
-                );
-            }
-            if (reason.includes('2hr Session')) {
-                sendDiscordLog(
-                    '🔄 Session Refresh',
-                    `Scheduled 2-hour memory cleanup.\n**Reason:** ${reason}`,
-                    5763719,
-                );
-            }
+            // PlayerScreen already logged the cause (watchdog or session refresh)
+            logger.debug('App', 'Player refresh', { reason });
 
-            // Soft refresh: remount the player
+            // Soft refresh: remount the player from the top, not a resume point
+            // (alert media refreshing must keep the snapshot of the content below)
+            if (!alertRef.current) resumePositionsRef.current = {};
             setPlayerKey((prev) => prev + 1);
         },
         [],
     );
 
+    // ── Zone idle handler (every item outside its window) ──────────
+    const handleZoneIdle = useCallback((zoneId: string) => {
+        logger.info('App', 'No playlist item currently valid in zone', { zone: zoneId });
+        setIdleZones((prev) => (prev.includes(zoneId) ? prev : [...prev, zoneId]));
+
+        // Every zone of the new content is idle: applied, nothing to start yet
+        for (const waiter of playbackWaitersRef.current) {
+            if (!waiter.zoneIds.has(zoneId)) continue;
+            waiter.idleZoneIds.add(zoneId);
+            if (waiter.idleZoneIds.size >= waiter.zoneIds.size) {
+                waiter.resolve({
+                    success: true,
+                    details: { started: false, reason: 'no playlist item currently valid' },
+                });
+            }
+        }
+    }, []);
+
     // ── Render ─────────────────────────────────────────────────────
+    const activeZones = zones.filter((zone) => !idleZones.includes(zone.id));
+
+    // Outside the schedule window (or with nothing valid to show) a playing
+    // screen sleeps, keeping its content
+    // An emergency alert covers everything, including a sleeping schedule
+    const displayState: SignageAppState = alert
+        ? 'alert'
+        : appState === 'playing' && (!scheduleAwake || activeZones.length === 0)
+            ? 'sleeping'
+            : appState;
+    displayStateRef.current = displayState;
+
     return (
         <ErrorBoundary
             onError={(err) => {
-                console.error('[ErrorBoundary]', err.message);
+                logger.warn('App', 'Remounting after render error', { error: err.message });
             }}
         >
             <KeepAwake />
             <StatusBar hidden />
 
-            {appState === 'loading' && <SleepScreen />}
+            {displayState === 'loading' && <SleepScreen />}
 
-            {appState === 'pairing' && <PairingScreen code={pairingCode} />}
+            {displayState === 'pairing' && <PairingScreen code={pairingCode} />}
 
-            {appState === 'sleeping' && <SleepScreen />}
+            {displayState === 'sleeping' && <SleepScreen />}
 
-            {appState === 'playing' && playlist.length > 0 && (
-                <PlayerScreen
-                    key={playerKey}
-                    playlist={playlist}
+            {displayState === 'alert' && alert && (
+                <AlertScreen
+                    key={`${alert.id}-${playerKey}`}
+                    alert={alert}
                     orientation={orientation}
                     onRefresh={handleRefresh}
                 />
             )}
+
+            {displayState === 'playing' && (
+                <View style={styles.screen}>
+                    {activeZones.map((zone) => (
+                        <View key={zone.id} style={zoneStyle(zone)}>
+                            <PlayerScreen
+                                key={playerKey}
+                                playlist={zone.playlist}
+                                orientation={orientation}
+                                onRefresh={handleRefresh}
+                                onIdle={() => handleZoneIdle(zone.id)}
+                                initialIndex={resumeIndexFor(zone)}
+                                onIndexChange={(index) => handleZoneIndex(zone, index)}
+                                zoneId={zone.id}
+                                onPlaybackReport={handlePlaybackReport}
+                            />
+                        </View>
+                    ))}
+                    <OverlayLayer config={overlay} orientation={orientation} />
+                </View>
+            )}
         </ErrorBoundary>
     );
 };
 
+const styles = StyleSheet.create({
+    screen: {
+        flex: 1,
+        backgroundColor: '#000',
+    },
+});
+
 export default App;
@@ -7,6 +7,7 @@
 
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
+import { logger } from '../services/Logger';
 
 interface Props {
     children: React.ReactNode;
@@ -31,7 +32,7 @@ export class ErrorBoundary extends React.Component<Props, State> {
     }
 
     componentDidCatch(error: Error, errorInfo: React.ErrorInfo) {
-        console.error('[ErrorBoundary]', error.message, errorInfo.componentStack);
+        logger.error('ErrorBoundary', 'Render error', { error: error.message, componentStack: errorInfo.componentStack });
         this.props.onError?.(error);
     }
 
@@ -0,0 +1,312 @@
+/**
+ * OverlayLayer — Widgets drawn above the players
+ *
+ * Clock, store logo, scrolling ticker and QR code, each pinned to a screen
+ * anchor plus an offset. Rendered as a sibling of the players, so config
+ * changes (new ticker text, QR payload) re-render only the widgets and never
+ * interrupt playback. Touch passes through: the layer is display-only.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Animated, Easing, Image, StyleSheet, Text, View, ViewStyle } from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+import { cacheService, resolveUrl } from '../services/CacheService';
+import { clockService } from '../services/ClockService';
+import { logger, errorMessage } from '../services/Logger';
+import {
+    ClockWidget,
+    LogoWidget,
+    Orientation,
+    OverlayConfig,
+    OverlayWidget,
+    QrWidget,
+    TickerWidget,
+    WidgetAnchor,
+} from '../types';
+
+const CLOCK_TICK_MS = 1000;
+const DEFAULT_TICKER_SPEED = 80; // dp per second
+// Wide enough that long ticker text lays out on one line before it is measured
+const TICKER_TRACK_WIDTH = 20000;
+const DEFAULT_LOGO_WIDTH = 160;
+const DEFAULT_LOGO_HEIGHT = 80;
+const DEFAULT_QR_SIZE = 160;
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+interface OverlayLayerProps {
+    config: OverlayConfig | null;
+    orientation: Orientation;
+}
+
+// ── Placement ────────────────────────────────────────────────
+
+type VerticalEdge = 'top' | 'center' | 'bottom';
+type HorizontalEdge = 'left' | 'center' | 'right';
+
+const FLEX_ALIGN = {
+    top: 'flex-start',
+    left: 'flex-start',
+    center: 'center',
+    bottom: 'flex-end',
+    right: 'flex-end',
+} as const;
+
+const splitAnchor = (anchor: WidgetAnchor): [VerticalEdge, HorizontalEdge] => {
+    const vertical = anchor.startsWith('top') ? 'top' : anchor.startsWith('bottom') ? 'bottom' : 'center';
+    const horizontal = anchor.endsWith('left') ? 'left' : anchor.endsWith('right') ? 'right' : 'center';
+    return [vertical, horizontal];
+};
+
+/**
+ * Full-screen frame that aligns the widget to its anchor. Offsets push
+ * away from the anchored edge, or shift the widget when centred on that axis.
+ */
+const frameStyle = (widget: OverlayWidget): ViewStyle => {
+    const [vertical, horizontal] = splitAnchor(widget.anchor || 'top-left');
+    const dx = Number(widget.offsetX) || 0;
+    const dy = Number(widget.offsetY) || 0;
+
+    return {
+        ...StyleSheet.absoluteFill,
+        justifyContent: FLEX_ALIGN[vertical],
+        alignItems: FLEX_ALIGN[horizontal],
+        paddingTop: vertical === 'top' ? dy : 0,
+        paddingBottom: vertical === 'bottom' ? dy : 0,
+        paddingLeft: horizontal === 'left' ? dx : 0,
+        paddingRight: horizontal === 'right' ? dx : 0,
+        transform: [
+            { translateX: horizontal === 'center' ? dx : 0 },
+            { translateY: vertical === 'center' ? dy : 0 },
+        ],
+    };
+};
+
+// ── Clock ────────────────────────────────────────────────────
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const formatTime = (now: Date, widget: ClockWidget): string => {
+    const seconds = widget.showSeconds ? `:${pad(now.getSeconds())}` : '';
+    if (widget.format === '12h') {
+        const hours = now.getHours() % 12 || 12;
+        const suffix = now.getHours() < 12 ? 'AM' : 'PM';
+        return `${hours}:${pad(now.getMinutes())}${seconds} ${suffix}`;
+    }
+    return `${pad(now.getHours())}:${pad(now.getMinutes())}${seconds}`;
+};
+
+const formatDate = (now: Date): string =>
+    `${WEEKDAY_NAMES[now.getDay()]} ${now.getDate()} ${MONTH_NAMES[now.getMonth()]}`;
+
+const ClockView: React.FC<{ widget: ClockWidget }> = ({ widget }) => {
+    // Server-corrected: cheap boxes are often minutes off
+    const [now, setNow] = useState(() => clockService.date());
+
+    useEffect(() => {
+        const interval = setInterval(() => setNow(clockService.date()), CLOCK_TICK_MS);
+        return () => clearInterval(interval);
+    }, []);
+
+    const textStyle = {
+        color: widget.color || '#fff',
+        fontSize: widget.fontSize || 32,
+    };
+
+    return (
+        <View style={[styles.clock, { backgroundColor: widget.backgroundColor || 'transparent' }]}>
+            <Text style={[styles.clockTime, textStyle]}>{formatTime(now, widget)}</Text>
+            {widget.showDate && (
+                <Text style={[styles.clockDate, textStyle, { fontSize: textStyle.fontSize * 0.5 }]}>
+                    {formatDate(now)}
+                </Text>
+            )}
+        </View>
+    );
+};
+
+// ── Logo ─────────────────────────────────────────────────────
+
+const LogoView: React.FC<{ widget: LogoWidget; orientation: Orientation }> = ({
+    widget,
+    orientation,
+}) => {
+    const url = resolveUrl(widget.url, orientation);
+    const [uri, setUri] = useState<string | null>(null);
+
+    useEffect(() => {
+        let isActive = true;
+
+        // App queues logos with the playlist, so they survive an offline boot
+        cacheService
+            .getCachedPath(url)
+            .then((path) => {
+                if (isActive) setUri(path ? `file://${path}` : url);
+            })
+            .catch(() => {
+                if (isActive) setUri(url);
+            });
+
+        return () => {
+            isActive = false;
+        };
+    }, [url]);
+
+    if (!uri) return null;
+
+    return (
+        <Image
+            source={{ uri }}
+            style={{
+                width: widget.width || DEFAULT_LOGO_WIDTH,
+                height: widget.height || DEFAULT_LOGO_HEIGHT,
+            }}
+            resizeMode="contain"
+        />
+    );
+};
+
+// ── Ticker ───────────────────────────────────────────────────
+
+const TickerView: React.FC<{ widget: TickerWidget }> = ({ widget }) => {
+    const translateX = useRef(new Animated.Value(0)).current;
+    const [containerWidth, setContainerWidth] = useState(0);
+    const [textWidth, setTextWidth] = useState(0);
+    const speed = widget.speed && widget.speed > 0 ? widget.speed : DEFAULT_TICKER_SPEED;
+
+    // Restart only when the geometry changes: same-width text swaps in mid-scroll
+    useEffect(() => {
+        if (containerWidth <= 0 || textWidth <= 0) return;
+
+        translateX.setValue(containerWidth);
+        const animation = Animated.loop(
+            Animated.timing(translateX, {
+                toValue: -textWidth,
+                duration: ((containerWidth + textWidth) / speed) * 1000,
+                easing: Easing.linear,
+                useNativeDriver: true,
+            }),
+        );
+        animation.start();
+
+        return () => animation.stop();
+    }, [containerWidth, textWidth, speed]);
+
+    return (
+        <View
+            style={[
+                styles.ticker,
+                widget.width ? { width: widget.width } : null,
+                { backgroundColor: widget.backgroundColor || 'rgba(0, 0, 0, 0.6)' },
+            ]}
+            onLayout={(e) => setContainerWidth(e.nativeEvent.layout.width)}
+        >
+            <Animated.View style={[styles.tickerTrack, { transform: [{ translateX }] }]}>
+                <Text
+                    numberOfLines={1}
+                    style={[
+                        styles.tickerText,
+                        { color: widget.color || '#fff', fontSize: widget.fontSize || 28 },
+                    ]}
+                    onLayout={(e) => setTextWidth(e.nativeEvent.layout.width)}
+                >
+                    {widget.text}
+                </Text>
+            </Animated.View>
+        </View>
+    );
+};
+
+// ── QR code ──────────────────────────────────────────────────
+
+const QrView: React.FC<{ widget: QrWidget }> = ({ widget }) => (
+    <QRCode
+        value={widget.value}
+        size={widget.size || DEFAULT_QR_SIZE}
+        color={widget.color || '#000'}
+        backgroundColor={widget.backgroundColor || '#fff'}
+        quietZone={8}
+        onError={(err: unknown) => logger.error('Overlay', 'QR code failed', { error: errorMessage(err) })}
+    />
+);
+
+// ── Layer ────────────────────────────────────────────────────
+
+const renderWidget = (widget: OverlayWidget, orientation: Orientation): React.ReactNode => {
+    switch (widget.type) {
+        case 'clock':
+            return <ClockView widget={widget} />;
+        case 'logo':
+            return widget.url ? <LogoView widget={widget} orientation={orientation} /> : null;
+        case 'ticker':
+            return widget.text ? <TickerView widget={widget} /> : null;
+        case 'qr':
+            return widget.value ? <QrView widget={widget} /> : null;
+        default:
+            // Unknown widget type from a newer server: skip it
+            return null;
+    }
+};
+
+export const OverlayLayer: React.FC<OverlayLayerProps> = ({ config, orientation }) => {
+    if (!config || !Array.isArray(config.widgets) || config.widgets.length === 0) return null;
+
+    return (
+        <View style={styles.layer} pointerEvents="none">
+            {config.widgets.map((widget, index) => {
+                const content = renderWidget(widget, orientation);
+                if (!content) return null;
+
+                // Full-width tickers stretch between the frame's padding
+                const stretch = widget.type === 'ticker' && !widget.width;
+                return (
+                    <View key={widget.id || `widget-${index}`} style={frameStyle(widget)} pointerEvents="none">
+                        <View
+                            style={[
+                                stretch ? styles.stretch : null,
+                                { opacity: widget.opacity ?? 1 },
+                            ]}
+                        >
+                            {content}
+                        </View>
+                    </View>
+                );
+            })}
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    layer: {
+        ...StyleSheet.absoluteFill,
+        // Above every layout zone
+        zIndex: 10000,
+    },
+    stretch: {
+        alignSelf: 'stretch',
+    },
+    clock: {
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 8,
+        alignItems: 'center',
+    },
+    clockTime: {
+        fontWeight: 'bold',
+        fontVariant: ['tabular-nums'],
+    },
+    clockDate: {
+        marginTop: 2,
+    },
+    ticker: {
+        overflow: 'hidden',
+        paddingVertical: 8,
+    },
+    tickerTrack: {
+        flexDirection: 'row',
+        width: TICKER_TRACK_WIDTH,
+    },
+    tickerText: {
+        fontWeight: 'bold',
+    },
+});
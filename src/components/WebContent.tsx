@@ -0,0 +1,122 @@
+/**
+ * WebContent — Sandboxed WebView for web page playlist items
+ *
+ * Dashboards, menus, social walls. Locked down to http(s) navigation:
+ * no file access, no popups, no geolocation. Reports a failed or
+ * timed-out load via onError so the player can skip the item.
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { StyleSheet } from 'react-native';
+import { WebView } from 'react-native-webview';
+
+interface WebContentProps {
+    url: string;
+    loadTimeoutMs: number;
+    // Reload the page every N ms (0 = never)
+    refreshIntervalMs: number;
+    onLoad: () => void;
+    onError: (message: string) => void;
+}
+
+const isHttpUrl = (url: string): boolean => /^https?:\/\//i.test(url);
+
+// The package types default WebView's extra-props parameter to `undefined`,
+// which intersects its props to `never` under strict mode
+type PlainWebView = WebView<object>;
+
+export const WebContent: React.FC<WebContentProps> = ({
+    url,
+    loadTimeoutMs,
+    refreshIntervalMs,
+    onLoad,
+    onError,
+}) => {
+    const webViewRef = useRef<PlainWebView>(null);
+    const loadTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const failedRef = useRef(false);
+
+    const clearLoadTimer = () => {
+        if (loadTimerRef.current) {
+            clearTimeout(loadTimerRef.current);
+            loadTimerRef.current = null;
+        }
+    };
+
+    const fail = (message: string) => {
+        // Report once per item; the player skips to the next one
+        if (failedRef.current) return;
+        failedRef.current = true;
+        clearLoadTimer();
+        onError(message);
+    };
+
+    // ── Load timeout ───────────────────────────────────────────────
+    useEffect(() => {
+        if (!isHttpUrl(url)) {
+            fail(`Unsupported web content URL: ${url}`);
+            return;
+        }
+
+        loadTimerRef.current = setTimeout(() => {
+            fail(`Page load timed out after ${Math.round(loadTimeoutMs / 1000)}s`);
+        }, loadTimeoutMs);
+
+        return clearLoadTimer;
+    }, [url, loadTimeoutMs]);
+
+    // ── Auto-refresh ───────────────────────────────────────────────
+    useEffect(() => {
+        if (refreshIntervalMs <= 0) return;
+
+        const interval = setInterval(() => {
+            webViewRef.current?.reload();
+        }, refreshIntervalMs);
+
+        return () => clearInterval(interval);
+    }, [refreshIntervalMs]);
+
+    if (!isHttpUrl(url)) return null;
+
+    return (
+        <WebView<object>
+            ref={webViewRef}
+            source={{ uri: url }}
+            style={styles.webview}
+            originWhitelist={['http://*', 'https://*']}
+            onShouldStartLoadWithRequest={(request) => isHttpUrl(request.url)}
+            javaScriptEnabled={true}
+            domStorageEnabled={true}
+            allowFileAccess={false}
+            allowFileAccessFromFileURLs={false}
+            allowUniversalAccessFromFileURLs={false}
+            javaScriptCanOpenWindowsAutomatically={false}
+            setSupportMultipleWindows={false}
+            geolocationEnabled={false}
+            mixedContentMode="never"
+            mediaPlaybackRequiresUserAction={false}
+            cacheEnabled={true}
+            onLoad={() => {
+                clearLoadTimer();
+                onLoad();
+            }}
+            onError={(event) => {
+                fail(event.nativeEvent.description || 'Page failed to load');
+            }}
+            onHttpError={(event) => {
+                fail(`HTTP ${event.nativeEvent.statusCode} loading page`);
+            }}
+        />
+    );
+};
+
+const styles = StyleSheet.create({
+    webview: {
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: '#000',
+    },
+});
@@ -0,0 +1,95 @@
+/**
+ * AlertScreen — Emergency alert takeover
+ *
+ * Full-screen text and/or media (image, video or web page) shown instead
+ * of the normal content, regardless of the sleep schedule. Media plays
+ * through PlayerScreen, so it is cached and watchdog-protected like any
+ * playlist item. Its validity windows are ignored: an alert shows until
+ * it is cleared or its own `expiresAt`.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { PlayerScreen } from './PlayerScreen';
+import { EmergencyAlert, Orientation, VideoSource } from '../types';
+
+interface AlertScreenProps {
+    alert: EmergencyAlert;
+    orientation: Orientation;
+    onRefresh: (reason: string) => void;
+}
+
+const DEFAULT_BACKGROUND = '#b00020';
+const DEFAULT_TEXT_COLOR = '#fff';
+
+export const AlertScreen: React.FC<AlertScreenProps> = ({ alert, orientation, onRefresh }) => {
+    const media = alert.media?.url ? alert.media : null;
+    // Stable identity: PlayerScreen restarts whenever its playlist changes
+    const mediaPlaylist = useMemo<VideoSource[]>(() => {
+        if (!media) return [];
+        return [{ ...media, validFrom: undefined, validUntil: undefined, timeWindows: undefined }];
+    }, [media]);
+    // Media that still can't play (idle player) gives way to the text
+    const [mediaIdle, setMediaIdle] = useState(false);
+    useEffect(() => setMediaIdle(false), [media]);
+    const showMedia = !!media && !mediaIdle;
+    const hasText = !!(alert.title || alert.message);
+    const textColor = alert.textColor || DEFAULT_TEXT_COLOR;
+
+    return (
+        <View style={[styles.container, { backgroundColor: alert.backgroundColor || DEFAULT_BACKGROUND }]}>
+            {showMedia && (
+                <PlayerScreen
+                    playlist={mediaPlaylist}
+                    orientation={orientation}
+                    onRefresh={onRefresh}
+                    onIdle={() => setMediaIdle(true)}
+                    zoneId="alert"
+                />
+            )}
+
+            {hasText && (
+                // Over media the text sits in a banner; on its own it fills the screen
+                <View style={showMedia ? styles.banner : styles.fullText}>
+                    {!!alert.title && (
+                        <Text style={[styles.title, { color: textColor }]}>{alert.title}</Text>
+                    )}
+                    {!!alert.message && (
+                        <Text style={[styles.message, { color: textColor }]}>{alert.message}</Text>
+                    )}
+                </View>
+            )}
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    fullText: {
+        ...StyleSheet.absoluteFill,
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 48,
+    },
+    banner: {
+        position: 'absolute',
+        left: 0,
+        right: 0,
+        bottom: 0,
+        paddingHorizontal: 32,
+        paddingVertical: 20,
+        backgroundColor: 'rgba(176, 0, 32, 0.85)',
+    },
+    title: {
+        fontSize: 56,
+        fontWeight: 'bold',
+        textAlign: 'center',
+    },
+    message: {
+        fontSize: 32,
+        marginTop: 16,
+        textAlign: 'center',
+    },
+});
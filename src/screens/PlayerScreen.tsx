@@ -5,77 +5,276 @@
  * Architecture:
  *   - Two <Video> components: active (playing) and standby (preloading)
  *   - On video end → swap active/standby → instant transition
+ *   - Image slides and web pages shown over the paused video for their `duration`
+ *   - Per-item trim points (startAt/endAt) and play counts (repeat)
+ *   - Dayparting: items outside their validity window are skipped
+ *   - Sync groups (video walls): shared timeline, drift fixed by seek or rate
+ *   - Proof-of-play record for every showing of an item
  *   - File-based caching via CacheService
  *   - Watchdog timer for stuck playback detection
  *   - 2-hour session refresh for memory leak prevention
  */
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { View, StyleSheet, AppState, AppStateStatus } from 'react-native';
-import Video, { OnLoadData, OnProgressData, VideoRef } from 'react-native-video';
-import { cacheService } from '../services/CacheService';
-import { sendDiscordLog } from '../services/DiscordLogger';
+import { View, Image, StyleSheet, AppState, AppStateStatus } from 'react-native';
+import Video, { OnLoadData, OnProgressData, OnSeekData, VideoRef } from 'react-native-video';
+import { WebContent } from '../components/WebContent';
+import { cacheService, toQueueItem } from '../services/CacheService';
+import { isItemActive } from '../services/ScheduleService';
+import { syncService } from '../services/SyncService';
+import { clockService } from '../services/ClockService';
+import { proofOfPlayService } from '../services/ProofOfPlayService';
+import { logger, LogFields } from '../services/Logger';
+import { statusService } from '../services/StatusService';
+import { settingsService } from '../services/SettingsService';
 import { VideoSource, Orientation } from '../types';
 
 interface PlayerScreenProps {
     playlist: VideoSource[];
     orientation: Orientation;
     onRefresh: (reason: string) => void;
+    // No playlist item is currently inside its validity window
+    onIdle?: () => void;
+    // Item to start from (e.g. resuming after an emergency alert)
+    initialIndex?: number;
+    onIndexChange?: (index: number) => void;
+    // Layout zone, recorded with proof-of-play
+    zoneId?: string;
+    // First item actually showing, or an item failing before that (command acks)
+    onPlaybackReport?: (report: PlaybackReport) => void;
 }
 
-// Session refresh after 2 hours (matches web player)
-const MAX_SESSION_MS = 2 * 60 * 60 * 1000;
-// Watchdog: detect playback stuck for >30 seconds (increased for longer videos)
+/** Start-up outcome of one mounted player. */
+export type PlaybackReport =
+    | { mountedAt: number; zoneId?: string; started: true; itemId?: string; url: string }
+    | { mountedAt: number; zoneId?: string; started: false; error: string };
+
+// Session refresh, watchdog threshold, buffering and resize mode come from
+// SettingsService (server-configurable per device)
 const WATCHDOG_INTERVAL_MS = 5000;
-const WATCHDOG_STUCK_THRESHOLD_MS = 30000;
+// Images/web pages without a duration
+const DEFAULT_DISPLAY_DURATION_S = 10;
+const DEFAULT_WEB_LOAD_TIMEOUT_S = 20;
+// Sync groups: drift check cadence and correction thresholds
+const SYNC_CHECK_INTERVAL_MS = 1000;
+const SYNC_SEEK_THRESHOLD_S = 0.5; // Further off than this: seek
+const SYNC_RATE_THRESHOLD_S = 0.04; // About a frame: nudge the rate instead
+const SYNC_RATE_GAIN = 0.5; // Rate change per second of drift
+const SYNC_MAX_RATE_ADJUST = 0.05;
+// Item changes this close to a slot boundary are left to the natural end/timer
+const SYNC_BOUNDARY_GRACE_MS = 1000;
+// Ignore positions older than this (buffering, just seeked)
+const SYNC_POSITION_MAX_AGE_MS = 1500;
+
+const isImage = (item?: VideoSource): boolean => item?.type === 'image';
+const isWeb = (item?: VideoSource): boolean => item?.type === 'web';
+// Items shown for a fixed time instead of until playback ends
+const isTimed = (item?: VideoSource): boolean => isImage(item) || isWeb(item);
+
+const playCount = (item: VideoSource): number =>
+    item.repeat && item.repeat > 1 ? Math.floor(item.repeat) : 1;
+
+// Timed items show their duration once per play count
+const displayDurationMs = (item: VideoSource): number =>
+    (item.duration && item.duration > 0 ? item.duration : DEFAULT_DISPLAY_DURATION_S) *
+    1000 *
+    playCount(item);
+
+// Video end point in seconds: the earlier of endAt and startAt + duration
+const trimEndAt = (item: VideoSource): number | undefined => {
+    const ends: number[] = [];
+    if (item.endAt && item.endAt > 0) ends.push(item.endAt);
+    if (item.duration && item.duration > 0) ends.push((item.startAt || 0) + item.duration);
+    return ends.length > 0 ? Math.min(...ends) : undefined;
+};
+
+const isTrimmed = (item?: VideoSource): boolean =>
+    !!item && (!!(item.startAt && item.startAt > 0) || trimEndAt(item) !== undefined);
+
+// Length of one play in ms; null while a video's file duration is unknown
+const playLengthMs = (item: VideoSource): number | null => {
+    if (isTimed(item)) return displayDurationMs(item) / playCount(item);
+    const end = trimEndAt(item) ?? syncService.getDuration(item.url);
+    if (end === undefined) return null;
+    return Math.max(0, end - (item.startAt || 0)) * 1000;
+};
+
+// Sync timeline slot per item (all of its plays); 0 outside its dayparting window
+const slotLengthsMs = (items: VideoSource[]): Array<number | null> => {
+    const now = clockService.date();
+    return items.map((item) => {
+        if (!isItemActive(item, now)) return 0;
+        const length = playLengthMs(item);
+        return length === null ? null : length * playCount(item);
+    });
+};
+
+// Next index after `from` (wrapping) whose item may play now; null if none
+const nextActiveIndex = (items: VideoSource[], from: number): number | null => {
+    const now = clockService.date();
+    for (let step = 1; step <= items.length; step++) {
+        const idx = (from + step) % items.length;
+        if (isItemActive(items[idx], now)) return idx;
+    }
+    return null;
+};
+
+const toUri = (source: string): string =>
+    source.startsWith('/') ? `file://${source}` : source;
 
 export const PlayerScreen: React.FC<PlayerScreenProps> = ({
     playlist,
     orientation,
     onRefresh,
+    onIdle,
+    initialIndex,
+    onIndexChange,
+    zoneId,
+    onPlaybackReport,
 }) => {
     // ── State ──────────────────────────────────────────────────────
     const [currentIndex, setCurrentIndex] = useState(0);
+    // Render-time settings (buffering, resize mode); timers read settingsService directly
+    const [settings, setSettings] = useState(settingsService.get());
     const [activeSource, setActiveSource] = useState<string | null>(null);
+    // Last video source: the <Video> stays mounted (paused) under images/web pages
+    const [videoSource, setVideoSource] = useState<string | null>(null);
+    // Bumped on every advance, so a repeated image/page re-arms its timer
+    const [advanceCount, setAdvanceCount] = useState(0);
+    // Sync group: playback rate nudged to close small drift
+    const [rate, setRate] = useState(1);
+    // Sync group: holding the first frame until the shared start time
+    const [waitingForStart, setWaitingForStart] = useState(false);
 
     const currentIndexRef = useRef(0);
     const standbySourceRef = useRef<string | null>(null); // Ref to avoid stale closures
+    const standbyIndexRef = useRef<number | null>(null);
     const activeVideoRef = useRef<VideoRef>(null);
     const sessionStartRef = useRef(Date.now());
     const lastProgressRef = useRef(Date.now());
     const lastEndEventRef = useRef(0);
     const loopCountRef = useRef(0);
+    // Plays of the current item so far (for `repeat`)
+    const playCountRef = useRef(0);
+    // Trim end already handled for this play (progress fires repeatedly)
+    const trimEndFiredRef = useRef(false);
+    const videoSourceRef = useRef<string | null>(null);
+    // Seek target (seconds) applied once the next video has loaded
+    const pendingSeekRef = useRef<number | null>(null);
+    // Last reported playback position, for drift measurement
+    const positionRef = useRef<{ time: number; at: number } | null>(null);
+    const rateRef = useRef(1);
+    const waitingForStartRef = useRef(false);
+    // Proof-of-play: the showing in progress, and why it is about to stop early
+    const playRef = useRef<{ item: VideoSource; startedAt: number; source: 'cache' | 'network' } | null>(null);
+    const playErrorRef = useRef<string | null>(null);
     const playlistRef = useRef(playlist);
     playlistRef.current = playlist;
+    const onIdleRef = useRef(onIdle);
+    onIdleRef.current = onIdle;
+    const onIndexChangeRef = useRef(onIndexChange);
+    onIndexChangeRef.current = onIndexChange;
+    const onPlaybackReportRef = useRef(onPlaybackReport);
+    onPlaybackReportRef.current = onPlaybackReport;
+    const mountedAtRef = useRef(Date.now());
+    const startReportedRef = useRef(false);
 
     // ── Initialize first video ─────────────────────────────────────
     useEffect(() => {
         if (playlist.length === 0) return;
 
-        currentIndexRef.current = 0;
-        setCurrentIndex(0);
+        // Sync group: join the shared timeline wherever it is now
+        const position = syncService.locate(slotLengthsMs(playlist));
+        if (position) {
+            loopCountRef.current = 0;
+            sessionStartRef.current = Date.now();
+            standbySourceRef.current = null;
+            standbyIndexRef.current = null;
+            setWaiting(!position.started);
+            jumpTo(position.index, position.offsetMs);
+            return;
+        }
+
+        // First item that is valid right now, from the resume point if any
+        const resumeIdx =
+            initialIndex !== undefined && initialIndex >= 0 && initialIndex < playlist.length
+                ? initialIndex
+                : 0;
+        const firstIdx = nextActiveIndex(playlist, resumeIdx - 1);
+        if (firstIdx === null) {
+            onIdleRef.current?.();
+            return;
+        }
+
+        currentIndexRef.current = firstIdx;
+        setCurrentIndex(firstIdx);
         loopCountRef.current = 0;
         sessionStartRef.current = Date.now();
         standbySourceRef.current = null;
+        standbyIndexRef.current = null;
 
-        loadVideo(resolveUrl(playlist[0].url)).then((path) => {
-            setActiveSource(path);
+        loadVideo(playlist[firstIdx]).then((path) => {
+            showSource(firstIdx, path);
         });
     }, [playlist]);
 
+    // ── Close the open proof-of-play record on unmount ─────────────
+    useEffect(() => {
+        return () => endPlay(false, 'Interrupted');
+    }, []);
+
+    // ── Report position (lets App resume here after an alert) ──────
+    useEffect(() => {
+        onIndexChangeRef.current?.(currentIndex);
+    }, [currentIndex]);
+
+    // ── Settings pushed by the server apply live ───────────────────
+    useEffect(() => settingsService.onChange(setSettings), []);
+
+    // ── Heartbeat status: what this zone is playing ────────────────
+    useEffect(() => {
+        const zone = zoneId || 'main';
+        return statusService.register(`player:${zone}`, () => {
+            const index = currentIndexRef.current;
+            const reported = positionRef.current;
+            const play = playRef.current;
+            // Videos report their position; images/pages count from the start of the play
+            const positionS = reported
+                ? reported.time + ((Date.now() - reported.at) / 1000) * rateRef.current
+                : play
+                    ? (clockService.now() - play.startedAt) / 1000
+                    : null;
+            return {
+                zones: {
+                    [zone]: {
+                        index,
+                        itemId: playlistRef.current[index]?.id ?? null,
+                        positionS: positionS === null ? null : Math.round(positionS * 10) / 10,
+                        sessionAgeMs: Date.now() - sessionStartRef.current,
+                    },
+                },
+            };
+        });
+    }, [zoneId]);
+
     // ── Declarative standby prefetching ────────────────────────────
     useEffect(() => {
         if (playlist.length <= 1) return;
 
+        // Best guess of what plays next; re-checked when the current item ends
+        const nextIdx = nextActiveIndex(playlist, currentIndex);
+        if (nextIdx === null || nextIdx === currentIndex) return;
+
         let isActive = true;
-        const nextIdx = (currentIndex + 1) % playlist.length;
 
         // Clear old standby while caching the new one
         standbySourceRef.current = null;
+        standbyIndexRef.current = null;
 
-        loadVideo(resolveUrl(playlist[nextIdx].url)).then((path) => {
+        loadVideo(playlist[nextIdx]).then((path) => {
             if (isActive) {
                 standbySourceRef.current = path;
+                standbyIndexRef.current = nextIdx;
             }
         });
 
@@ -84,19 +283,158 @@ export const PlayerScreen: React.FC<PlayerScreenProps> = ({
         };
     }, [currentIndex, playlist]);
 
-    // ── Resolve {deg} placeholder in CDN URL ──────────────────────
-    // Server encodes videos into 4 rotation profiles: deg0, deg90, deg180, deg270.
-    // The playlist URL contains {deg} placeholder, e.g.: .../videos/folder/{deg}.mp4
-    const resolveUrl = (url: string): string => {
-        const deg = parseInt(String(orientation), 10) || 0;
-        return url.replace('{deg}', `deg${deg}`);
-    };
+    // ── Load video/image (cache-first, integrity-checked) ──────────
+    // Resolves the {deg} placeholder to this device's rendition
+    const loadVideo = async (item: VideoSource): Promise<string> => {
+        // Web pages load live in the WebView
+        if (isWeb(item)) return item.url;
 
-    // ── Load video (cache-first) ───────────────────────────────────
-    const loadVideo = async (url: string): Promise<string> => {
-        const cached = await cacheService.prefetchVideo(url);
+        const request = toQueueItem(item, orientation);
+        const cached = await cacheService.prefetchVideo(request);
         // Return cached file path, or fall back to network URL
-        return cached || url;
+        return cached || request.url;
+    };
+
+    // Cached copy if there is one, else the network URL (no waiting on a download)
+    const cachedOrStream = async (item: VideoSource): Promise<string> => {
+        if (isWeb(item)) return item.url;
+
+        const request = toQueueItem(item, orientation);
+        const cached = await cacheService.getCachedPath(request.url, request.integrity);
+        return cached || request.url;
+    };
+
+    // ── Show item source (images/pages overlay the paused video) ───
+    const showSource = (index: number, source: string) => {
+        // Anything still open was cut short (e.g. a sync jump)
+        endPlay(false, 'Interrupted');
+        beginPlay(index, source);
+
+        setActiveSource(source);
+        if (!isTimed(playlistRef.current[index])) {
+            videoSourceRef.current = source;
+            setVideoSource(source);
+        }
+    };
+
+    // Next play in the playlist order. The same video file again (a repeated
+    // item, [video, image] loops, two trims of one file) changes no source, so
+    // onLoad won't seek to the start and ExoPlayer stays ended: rewind here
+    const advanceTo = (index: number, source: string) => {
+        const item = playlistRef.current[index];
+        const sameFile = !!item && !isTimed(item) && source === videoSourceRef.current;
+        showSource(index, source);
+        if (sameFile) {
+            trimEndFiredRef.current = false;
+            lastProgressRef.current = Date.now();
+            activeVideoRef.current?.seek(item.startAt || 0);
+        }
+    };
+
+    // ── Proof of play ──────────────────────────────────────────────
+    const beginPlay = (index: number, source: string) => {
+        const item = playlistRef.current[index];
+        if (!item) return;
+        playRef.current = {
+            item,
+            startedAt: clockService.now(),
+            // Local file paths come from the cache; anything else streams
+            source: source.startsWith('/') ? 'cache' : 'network',
+        };
+    };
+
+    const endPlay = (completed: boolean, error?: string) => {
+        const play = playRef.current;
+        if (!play) return;
+        playRef.current = null;
+
+        proofOfPlayService.record({
+            itemId: play.item.id,
+            url: play.item.url,
+            name: play.item.name,
+            type: play.item.type || 'video',
+            zoneId,
+            startedAt: play.startedAt,
+            endedAt: clockService.now(),
+            completed,
+            source: play.source,
+            error: completed ? undefined : error,
+        });
+    };
+
+    // Another play of the same item without a source change (repeat, native loop)
+    const restartPlay = () => {
+        const play = playRef.current;
+        endPlay(true);
+        if (play && videoSourceRef.current) {
+            beginPlay(currentIndexRef.current, videoSourceRef.current);
+        }
+    };
+
+    // ── Start-up report (first item actually on screen) ────────────
+    const reportStarted = () => {
+        if (startReportedRef.current) return;
+        const item = playlistRef.current[currentIndexRef.current];
+        if (!item) return;
+        startReportedRef.current = true;
+        onPlaybackReportRef.current?.({
+            mountedAt: mountedAtRef.current,
+            zoneId,
+            started: true,
+            itemId: item.id,
+            url: item.url,
+        });
+    };
+
+    const reportFailure = (error: string) => {
+        if (startReportedRef.current) return;
+        onPlaybackReportRef.current?.({ mountedAt: mountedAtRef.current, zoneId, started: false, error });
+    };
+
+    // ── Sync group helpers ─────────────────────────────────────────
+    const setWaiting = (waiting: boolean) => {
+        waitingForStartRef.current = waiting;
+        setWaitingForStart(waiting);
+    };
+
+    const applyRate = (value: number) => {
+        if (Math.abs(value - rateRef.current) < 0.001) return;
+        rateRef.current = value;
+        setRate(value);
+    };
+
+    const seekToPending = () => {
+        const target = pendingSeekRef.current;
+        pendingSeekRef.current = null;
+        if (target !== null) activeVideoRef.current?.seek(target);
+    };
+
+    // Show an item at an offset into its slot (timeline position)
+    const jumpTo = (index: number, offsetMs: number) => {
+        const item = playlistRef.current[index];
+        if (!item) return;
+
+        const length = playLengthMs(item) || 0;
+        const offsetInPlay = length > 0 ? offsetMs % length : 0;
+        playCountRef.current = length > 0 ? Math.floor(offsetMs / length) : 0;
+        pendingSeekRef.current = isTimed(item) ? null : (item.startAt || 0) + offsetInPlay / 1000;
+        trimEndFiredRef.current = false;
+        positionRef.current = null;
+
+        currentIndexRef.current = index;
+        setCurrentIndex(index);
+        setAdvanceCount((prev) => prev + 1);
+        lastProgressRef.current = Date.now();
+
+        loadVideo(item).then((path) => {
+            // A later jump or advance won the race
+            if (currentIndexRef.current !== index) return;
+            // Same file already loaded: onLoad won't fire again, so seek now
+            if (!isTimed(item) && path === videoSourceRef.current) {
+                seekToPending();
+            }
+            showSource(index, path);
+        });
     };
 
     // ── Handle video end → advance playlist ────────────────────────
@@ -110,62 +448,186 @@ export const PlayerScreen: React.FC<PlayerScreenProps> = ({
         if (now - lastEndEventRef.current < 500) return;
         lastEndEventRef.current = now;
 
+        // Ended normally unless an error is skipping it
+        const playError = playErrorRef.current;
+        playErrorRef.current = null;
+        endPlay(!playError, playError || undefined);
+
         const current = currentIndexRef.current;
-        const nextIdx = (current + 1) % pl.length;
+        // Skip items outside their dayparting window at the moment they'd play
+        const nextIdx = nextActiveIndex(pl, current);
+        if (nextIdx === null) {
+            onIdleRef.current?.();
+            return;
+        }
 
         currentIndexRef.current = nextIdx;
         setCurrentIndex(nextIdx);
+        setAdvanceCount((prev) => prev + 1);
+        playCountRef.current = 0;
+        positionRef.current = null;
 
         // Reset progress tracker
         lastProgressRef.current = Date.now();
 
         // Check if session refresh is needed (at end of playlist loop)
-        const isLastVideo = current === pl.length - 1;
+        const isLastVideo = nextIdx <= current;
         const sessionDuration = Date.now() - sessionStartRef.current;
 
         if (isLastVideo) {
             // Track full loops for periodic refresh
             loopCountRef.current += 1;
 
+            const { sessionRefreshMs, sessionRefreshLoops } = settingsService.get();
+            const sessionExpired = sessionRefreshMs > 0 && sessionDuration >= sessionRefreshMs;
             const shouldRefresh =
-                sessionDuration >= MAX_SESSION_MS || loopCountRef.current >= 20;
+                sessionExpired || (sessionRefreshLoops > 0 && loopCountRef.current >= sessionRefreshLoops);
 
             if (shouldRefresh) {
-                const reason =
-                    sessionDuration >= MAX_SESSION_MS ? '2hr Session' : 'Periodic';
-                sendDiscordLog(
-                    '🔄 Session Refresh',
-                    `Scheduled memory cleanup.\n**Reason:** ${reason}`,
-                    5763719,
-                );
+                const reason = sessionExpired ? 'Session Limit' : 'Periodic';
+                logger.notice('Player', '🔄 Session Refresh', { detail: 'Scheduled memory cleanup.', Reason: reason });
                 onRefresh(`Memory Cleanup (${reason})`);
                 return;
             }
         }
 
         // Read standby from ref (always latest value, never stale)
-        const standby = standbySourceRef.current;
+        const standby =
+            standbyIndexRef.current === nextIdx ? standbySourceRef.current : null;
         if (standby) {
-            setActiveSource(standby);
+            advanceTo(nextIdx, standby);
         } else {
-            // Fallback to network URL if standby not ready
-            setActiveSource(pl[nextIdx].url);
+            // Standby not ready, a different item, or none prepared (the item
+            // plays again): cached copy if there is one, else stream it
+            cachedOrStream(pl[nextIdx]).then((path) => {
+                // A jump or another advance won the race
+                if (currentIndexRef.current !== nextIdx) return;
+                advanceTo(nextIdx, path);
+            });
         }
 
         // Note: changing source.uri swaps media without recreating ExoPlayer.
         // No key remount needed — avoids MediaCodec thread thrashing.
     }, [onRefresh]);
 
+    // ── Handle end of one play → repeat or advance ────────────────
+    const handleItemEnd = useCallback(() => {
+        const item = playlistRef.current[currentIndexRef.current];
+        if (!item) return;
+
+        playCountRef.current += 1;
+        if (playCountRef.current < playCount(item)) {
+            // Play the clip again from its start point
+            restartPlay();
+            lastProgressRef.current = Date.now();
+            trimEndFiredRef.current = false;
+            activeVideoRef.current?.seek(item.startAt || 0);
+            return;
+        }
+
+        handleVideoEnd();
+    }, [handleVideoEnd]);
+
+    // ── Image/web page display timer ───────────────────────────────
+    useEffect(() => {
+        const item = playlist[currentIndex];
+        if (!activeSource || !item || !isTimed(item) || waitingForStart) return;
+
+        // In a sync group the slot end on the shared timeline decides
+        const position = syncService.locate(slotLengthsMs(playlist));
+        const delay =
+            position && position.started && position.index === currentIndex
+                ? position.remainingMs
+                : displayDurationMs(item);
+
+        const timer = setTimeout(() => {
+            handleVideoEnd();
+        }, delay);
+
+        return () => clearTimeout(timer);
+    }, [activeSource, currentIndex, advanceCount, playlist, waitingForStart, handleVideoEnd]);
+
+    // ── Sync group drift correction ────────────────────────────────
+    useEffect(() => {
+        const interval = setInterval(() => {
+            const pl = playlistRef.current;
+            const position = syncService.locate(slotLengthsMs(pl));
+            if (!position) {
+                // Not (or no longer) synced, or item lengths still unknown
+                applyRate(1);
+                if (waitingForStartRef.current) setWaiting(false);
+                return;
+            }
+
+            if (!position.started) {
+                // Holding the first frame is not a stall
+                lastProgressRef.current = Date.now();
+                return;
+            }
+
+            if (waitingForStartRef.current) {
+                setWaiting(false);
+                jumpTo(position.index, position.offsetMs);
+                return;
+            }
+
+            if (position.index !== currentIndexRef.current) {
+                if (position.boundaryMs > SYNC_BOUNDARY_GRACE_MS) {
+                    logger.debug('Sync', 'Wrong item, jumping', { index: position.index });
+                    applyRate(1);
+                    jumpTo(position.index, position.offsetMs);
+                }
+                return;
+            }
+
+            const item = pl[position.index];
+            const length = playLengthMs(item);
+            const reported = positionRef.current;
+            if (isTimed(item) || !length || !reported) return;
+            if (Date.now() - reported.at > SYNC_POSITION_MAX_AGE_MS) return;
+
+            // Near the end of one play the expected position wraps: leave it
+            const offsetInPlay = position.offsetMs % length;
+            if (offsetInPlay < SYNC_BOUNDARY_GRACE_MS || length - offsetInPlay < SYNC_BOUNDARY_GRACE_MS) {
+                return;
+            }
+
+            const expected = (item.startAt || 0) + offsetInPlay / 1000;
+            const actual = reported.time + ((Date.now() - reported.at) / 1000) * rateRef.current;
+            const drift = actual - expected; // Positive: ahead of the group
+
+            if (Math.abs(drift) > SYNC_SEEK_THRESHOLD_S) {
+                logger.debug('Sync', 'Drift too large, seeking', { driftS: Number(drift.toFixed(2)) });
+                applyRate(1);
+                positionRef.current = null;
+                activeVideoRef.current?.seek(expected);
+            } else if (Math.abs(drift) > SYNC_RATE_THRESHOLD_S) {
+                const adjust = Math.max(
+                    -SYNC_MAX_RATE_ADJUST,
+                    Math.min(SYNC_MAX_RATE_ADJUST, drift * SYNC_RATE_GAIN),
+                );
+                applyRate(1 - adjust);
+            } else {
+                applyRate(1);
+            }
+        }, SYNC_CHECK_INTERVAL_MS);
+
+        return () => clearInterval(interval);
+    }, []);
+
     // ── Watchdog timer ─────────────────────────────────────────────
     useEffect(() => {
         const interval = setInterval(() => {
             const stuckDuration = Date.now() - lastProgressRef.current;
-            if (stuckDuration > WATCHDOG_STUCK_THRESHOLD_MS) {
-                sendDiscordLog(
-                    '⚠️ Watchdog Recovery',
-                    `Playback stuck for ${Math.round(stuckDuration / 1000)}s. Triggering reset.`,
-                    16776960,
-                );
+            // Images/pages report no progress: allow their display time on top
+            const item = playlistRef.current[currentIndexRef.current];
+            const threshold =
+                settingsService.get().watchdogStuckMs + (item && isTimed(item) ? displayDurationMs(item) : 0);
+            if (stuckDuration > threshold) {
+                logger.warn('Player', '⚠️ Watchdog Recovery', {
+                    detail: `Playback stuck for ${Math.round(stuckDuration / 1000)}s. Triggering reset.`,
+                });
+                statusService.increment('watchdogRecoveries');
                 onRefresh('Playback Stuck (Watchdog)');
                 lastProgressRef.current = Date.now(); // Prevent rapid-fire
             }
@@ -185,17 +647,55 @@ export const PlayerScreen: React.FC<PlayerScreenProps> = ({
     }, []);
 
     // ── Progress tracking (feeds watchdog) ─────────────────────────
-    const handleProgress = useCallback((_data: OnProgressData) => {
+    const handleProgress = useCallback((data: OnProgressData) => {
+        lastProgressRef.current = Date.now();
+        reportStarted();
+        const previous = positionRef.current;
+        positionRef.current = { time: data.currentTime, at: Date.now() };
+
+        const item = playlistRef.current[currentIndexRef.current];
+
+        // Native loop (single untrimmed video) sends no onEnd: a jump back is a new play
+        const nativeLoop =
+            playlistRef.current.length === 1 && !!item && !isTimed(item) && !isTrimmed(item);
+        if (nativeLoop && previous && data.currentTime + 1 < previous.time) {
+            restartPlay();
+        }
+
+        // Trimmed clip: treat reaching endAt as the end of this play
+        const endAt = item && !isTimed(item) ? trimEndAt(item) : undefined;
+        if (endAt !== undefined && data.currentTime >= endAt && !trimEndFiredRef.current) {
+            trimEndFiredRef.current = true;
+            handleItemEnd();
+        }
+    }, [handleItemEnd]);
+
+    // ── Video loaded → jump to the item's start (or sync) point ────
+    const handleLoad = useCallback((data: OnLoadData) => {
         lastProgressRef.current = Date.now();
+        trimEndFiredRef.current = false;
+
+        const item = playlistRef.current[currentIndexRef.current];
+        if (!item || isTimed(item)) return;
+
+        // Sync groups need file lengths to lay out the shared timeline
+        syncService.learnDuration(item.url, data.duration);
+
+        if (pendingSeekRef.current === null && item.startAt && item.startAt > 0) {
+            pendingSeekRef.current = item.startAt;
+        }
+        seekToPending();
     }, []);
 
     // ── Error handling ─────────────────────────────────────────────
-    const handleError = useCallback(
-        (error: any) => {
-            const msg = error?.error?.errorString || 'Unknown video error';
-            sendDiscordLog('❌ Player Error', msg, 15548997);
-
-            // Try to advance to next video
+    const reportAndSkip = useCallback(
+        (title: string, msg: string, fields?: LogFields) => {
+            logger.error('Player', title, { detail: msg, ...fields });
+            statusService.increment('playbackErrors');
+            reportFailure(msg);
+            playErrorRef.current = msg;
+
+            // Try to advance to next item
             setTimeout(() => {
                 handleVideoEnd();
             }, 1000);
@@ -203,56 +703,104 @@ export const PlayerScreen: React.FC<PlayerScreenProps> = ({
         [handleVideoEnd],
     );
 
+    const handleError = useCallback(
+        (error: any) => {
+            const msg =
+                error?.error?.errorString || error?.nativeEvent?.error || 'Unknown video error';
+            reportAndSkip('❌ Player Error', msg);
+        },
+        [reportAndSkip],
+    );
+
+    const handleWebError = useCallback(
+        (msg: string) => {
+            const item = playlistRef.current[currentIndexRef.current];
+            reportAndSkip('❌ Web Content Error', msg, { URL: item?.url });
+        },
+        [reportAndSkip],
+    );
+
 
 
     if (!activeSource) {
-        // Still loading first video — show black screen
+        // Still loading first item — show black screen
         return <View style={styles.container} />;
     }
 
-    const isFileUri = activeSource.startsWith('/');
+    const currentItem = playlist[currentIndex];
+    const showingImage = isImage(currentItem);
+    const showingWeb = isWeb(currentItem);
 
     return (
         <View style={styles.container}>
             <View style={styles.videoContainer}>
-                {/* Active Player */}
-                <Video
-                    key="active-player"
-                    ref={activeVideoRef}
-                    source={{
-                        uri: isFileUri ? `file://${activeSource}` : activeSource,
-                    }}
-                    style={styles.video}
-                    resizeMode="contain"
-                    useTextureView={true}
-                    muted={true}
-                    rate={1.0} // Explicitly strictly 1x playback speed
-                    repeat={playlist.length === 1} // Native loop for single video
-                    paused={false}
-                    playInBackground={false}
-                    playWhenInactive={false}
-                    disableFocus={true}
-                    controls={false}
-                    preventsDisplaySleepDuringVideoPlayback={true}
-                    onProgress={handleProgress}
-                    onEnd={() => {
-                        if (playlist.length > 1) {
-                            handleVideoEnd();
-                        }
-                        // Single video: handled by repeat={true}
-                    }}
-                    onError={handleError}
-                    onLoad={(_data: OnLoadData) => {
-                        lastProgressRef.current = Date.now();
-                    }}
-                    // ExoPlayer buffer config
-                    bufferConfig={{
-                        minBufferMs: 5000,
-                        maxBufferMs: 50000,
-                        bufferForPlaybackMs: 2500,
-                        bufferForPlaybackAfterRebufferMs: 5000,
-                    }}
-                />
+                {/* Active Player (kept mounted, paused, while an image is shown) */}
+                {videoSource && (
+                    <Video
+                        key="active-player"
+                        ref={activeVideoRef}
+                        source={{ uri: toUri(videoSource) }}
+                        style={styles.video}
+                        resizeMode={settings.resizeMode}
+                        useTextureView={true}
+                        muted={true}
+                        rate={rate} // 1x unless a sync group is closing drift
+                        // Native loop for single untrimmed video
+                        repeat={playlist.length === 1 && !isTrimmed(currentItem)}
+                        paused={showingImage || showingWeb || waitingForStart}
+                        playInBackground={false}
+                        playWhenInactive={false}
+                        disableFocus={true}
+                        controls={false}
+                        preventsDisplaySleepDuringVideoPlayback={true}
+                        onProgress={handleProgress}
+                        onEnd={() => {
+                            if (showingImage || showingWeb) return;
+                            if (playlist.length > 1 || isTrimmed(currentItem)) {
+                                handleItemEnd();
+                            }
+                            // Single untrimmed video: handled by repeat={true}
+                        }}
+                        onError={handleError}
+                        onLoad={handleLoad}
+                        onSeek={(_data: OnSeekData) => {
+                            lastProgressRef.current = Date.now();
+                            positionRef.current = null;
+                            trimEndFiredRef.current = false;
+                        }}
+                        // ExoPlayer buffer config
+                        bufferConfig={settings.buffer}
+                    />
+                )}
+
+                {/* Image slide */}
+                {showingImage && (
+                    <Image
+                        source={{ uri: toUri(activeSource) }}
+                        style={styles.video}
+                        resizeMode={settings.resizeMode}
+                        onLoad={() => {
+                            lastProgressRef.current = Date.now();
+                            reportStarted();
+                        }}
+                        onError={handleError}
+                    />
+                )}
+
+                {/* Web page (remounted per showing: fresh load + timeout) */}
+                {showingWeb && (
+                    <WebContent
+                        key={`web-${advanceCount}`}
+                        url={activeSource}
+                        loadTimeoutMs={(currentItem.loadTimeout || DEFAULT_WEB_LOAD_TIMEOUT_S) * 1000}
+                        refreshIntervalMs={(currentItem.refreshInterval || 0) * 1000}
+                        onLoad={() => {
+                            lastProgressRef.current = Date.now();
+                            reportStarted();
+                        }}
+                        onError={handleWebError}
+                    />
+                )}
             </View>
         </View>
     );
@@ -1,26 +1,118 @@
 import RNFS from 'react-native-fs';
-import { MAX_CACHE_MB as MAX_CACHE_MB_ENV } from '@env';
+import { MAX_CACHE_MB as MAX_CACHE_MB_ENV, MIN_FREE_MB as MIN_FREE_MB_ENV } from '@env';
+import { logger, errorMessage } from './Logger';
+import { statusService } from './StatusService';
+import { CacheInventory, CacheItemStatus, Orientation, VideoSource } from '../types';
 
 const CACHE_DIR = `${RNFS.CachesDirectoryPath}/video-cache`;
 const MANIFEST_PATH = `${CACHE_DIR}/_manifest.json`;
-const FALLBACK_MAX_CACHE_MB = parseInt(MAX_CACHE_MB_ENV || '300', 10);
-const FALLBACK_MAX_CACHE_BYTES = FALLBACK_MAX_CACHE_MB * 1024 * 1024;
+// Budget: cache never grows past MAX_CACHE_MB and always leaves MIN_FREE_MB free
+const MAX_CACHE_MB = parseInt(MAX_CACHE_MB_ENV || '300', 10) || 300;
+const MAX_CACHE_BYTES = MAX_CACHE_MB * 1024 * 1024;
+const MIN_FREE_MB = parseInt(MIN_FREE_MB_ENV || '200', 10) || 0;
+const MIN_FREE_BYTES = MIN_FREE_MB * 1024 * 1024;
+// Attempts per prefetch when the downloaded file fails verification
+const MAX_INTEGRITY_ATTEMPTS = 2;
+// Range-resume attempts per prefetch after an interrupted transfer
+const MAX_RESUME_ATTEMPTS = 5;
+const RESUME_DELAY_MS = 2000;
+// Partial downloads untouched for this long are discarded on init
+const PARTIAL_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+// Read size when joining resumed segments (bounds JS memory use)
+const ASSEMBLE_CHUNK_BYTES = 1024 * 1024;
+// Download queue: parallel transfers and retry backoff (doubles per failure)
+const MAX_CONCURRENT_DOWNLOADS = 2;
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000;
+// Items the player is waiting for right now jump the queue
+const PRIORITY_BACKGROUND = 0;
+const PRIORITY_NOW = 1;
+// Coalesce inventory change notifications (progress fires often)
+const INVENTORY_NOTIFY_DELAY_MS = 3000;
+const DOWNLOAD_PROGRESS_INTERVAL_MS = 2000;
+
+/** Expected file properties, from the playlist item. */
+export interface CacheIntegrity {
+    sha256?: string;
+    size?: number;
+}
 
 interface CacheEntry {
     url: string;
     filename: string;
     size: number;
     accessedAt: number;
+    sha256?: string;
+    // Set for {deg} renditions; other orientations are evicted first
+    rendition?: Orientation;
+}
+
+/**
+ * In-progress download. Each (resumed) transfer writes one segment file
+ * `${filename}.part<n>`; their sizes on disk are the resume offset.
+ */
+interface PartialDownload {
+    url: string;
+    filename: string;
+    segments: number;
+    totalBytes?: number;
+    // ETag or Last-Modified, sent as If-Range so a changed file restarts
+    validator?: string;
+    updatedAt: number;
 }
 
 interface CacheManifest {
     entries: CacheEntry[];
+    partials?: PartialDownload[];
 }
 
+/** Resolved playlist item to cache (see toQueueItem). */
+export interface QueueItem {
+    url: string;
+    integrity?: CacheIntegrity;
+    rendition?: Orientation;
+}
+
+interface DownloadTask {
+    url: string;
+    integrity?: CacheIntegrity;
+    rendition?: Orientation;
+    priority: number;
+    // Playlist position: earlier items download first
+    order: number;
+    attempts: number;
+    nextAttemptAt: number;
+    lastError?: string;
+    running: boolean;
+    // Current RNFS job, so a running transfer can be stopped
+    jobId?: number;
+    // Live progress of the running transfer (for inventory reports)
+    receivedBytes?: number;
+    expectedBytes?: number;
+    // Full size room was last made for (see reserveSpace)
+    reservedBytes?: number;
+    // 'storage': stopped because the MIN_FREE_MB reserve can't be kept
+    stopReason?: 'cancel' | 'preempt' | 'storage';
+    waiters: Array<(path: string | null) => void>;
+}
+
+type InventoryHandler = (inventory: CacheInventory) => void;
+
 class CacheService {
     private manifest: CacheManifest = { entries: [] };
     private initialized = false;
-    private activeDownloads = new Map<string, Promise<string | null>>();
+    private tasks = new Map<string, DownloadTask>();
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    // Current and next scheduled playlist, as last passed to syncQueue (pinned)
+    private wanted: QueueItem[] = [];
+    private upcoming: QueueItem[] = [];
+    private inventoryHandler: InventoryHandler | null = null;
+    private inventoryTimer: ReturnType<typeof setTimeout> | null = null;
+    private orientation: Orientation = '0';
+    // Full hashes are expensive on low-end devices: re-hash once per app session
+    private verifiedHashes = new Set<string>();
+    // Serialises manifest writes, so an older snapshot never lands last
+    private manifestChain: Promise<void> = Promise.resolve();
 
     /**
      * Initialize cache directory and load manifest.
@@ -34,14 +126,24 @@ class CacheService {
         }
 
         await this.loadManifest();
+        await this.discardStalePartials();
         this.initialized = true;
+
+        statusService.register('cache', async () => {
+            let freeBytes: number | null = null;
+            try {
+                freeBytes = (await RNFS.getFSInfo()).freeSpace;
+            } catch { }
+            return { cacheBytes: this.getCacheSize(), freeBytes };
+        });
     }
 
     /**
      * Get local file path for a cached video URL.
-     * Returns null if not cached.
+     * Returns null if not cached, or if the file fails verification
+     * against `integrity` (the entry is then deleted so it gets re-fetched).
      */
-    async getCachedPath(url: string): Promise<string | null> {
+    async getCachedPath(url: string, integrity?: CacheIntegrity): Promise<string | null> {
         await this.init();
 
         const entry = this.manifest.entries.find((e) => e.url === url);
@@ -59,6 +161,13 @@ class CacheService {
             return null;
         }
 
+        const failure = await this.verifyFile(filePath, entry, integrity);
+        if (failure) {
+            this.reportIntegrityFailure(url, `Cached file rejected: ${failure}`);
+            await this.removeEntry(entry);
+            return null;
+        }
+
         // Update access time
         entry.accessedAt = Date.now();
         await this.saveManifest();
@@ -67,64 +176,319 @@ class CacheService {
     }
 
     /**
-     * Download and cache a video from URL.
-     * Returns local file path on success, null on failure.
+     * Set the device orientation. Cached renditions for other orientations
+     * are kept (the screen may rotate back) but become first to be evicted.
+     */
+    setOrientation(orientation: Orientation): void {
+        this.orientation = orientation;
+    }
+
+    /**
+     * Download and cache a video the player needs now (queue priority).
+     * Returns local file path on success, null if this attempt failed
+     * (the queue keeps retrying in the background).
      * Deduplicates concurrent downloads of the same URL.
      */
-    async prefetchVideo(url: string): Promise<string | null> {
+    async prefetchVideo(item: QueueItem): Promise<string | null> {
         await this.init();
 
-        // Check if already cached
-        const existing = await this.getCachedPath(url);
+        // Check if already cached (and still intact)
+        const existing = await this.getCachedPath(item.url, item.integrity);
         if (existing) return existing;
 
-        // Check if download already in progress
-        const active = this.activeDownloads.get(url);
-        if (active) return active;
+        return new Promise((resolve) => {
+            const task = this.enqueue(item, PRIORITY_NOW, -1);
+            task.waiters.push(resolve);
+            this.pump();
+        });
+    }
 
-        // Start download
-        const downloadPromise = this._download(url);
-        this.activeDownloads.set(url, downloadPromise);
+    /**
+     * Make the download queue match a playlist: fetch every item that
+     * isn't cached yet, and cancel queued/running downloads for items
+     * that are no longer in it. Items of the current and the next
+     * scheduled playlist (`upcoming`) are pinned: never evicted.
+     */
+    async syncQueue(items: QueueItem[], upcoming: QueueItem[] = []): Promise<void> {
+        await this.init();
+        this.wanted = items;
+        this.upcoming = upcoming;
+
+        const wanted = new Set(this.pinnedUrls());
+        for (const task of [...this.tasks.values()]) {
+            if (!wanted.has(task.url)) this.cancelTask(task);
+        }
+
+        // Upcoming content downloads after the current playlist
+        [...items, ...upcoming].forEach((item, index) => {
+            if (this.manifest.entries.some((e) => e.url === item.url)) return;
+            this.enqueue(item, PRIORITY_BACKGROUND, index);
+        });
+
+        this.pump();
+        this.notifyInventoryChange();
+    }
+
+    // ── Inventory reporting ──────────────────────────────────────
+
+    /**
+     * Register handler for (coalesced) cache inventory changes.
+     */
+    onInventoryChange(handler: InventoryHandler) {
+        this.inventoryHandler = handler;
+    }
+
+    /**
+     * Cache state of the current playlist: what is cached, download
+     * progress, failures and free storage.
+     */
+    async getInventory(): Promise<CacheInventory> {
+        await this.init();
+
+        const items: CacheItemStatus[] = [];
+        for (const item of this.wanted) {
+            const entry = this.manifest.entries.find((e) => e.url === item.url);
+            const task = this.tasks.get(item.url);
+            const partial = this.manifest.partials?.find((p) => p.url === item.url);
+
+            let bytesDownloaded = entry?.size ?? 0;
+            if (!entry && task?.running && task.receivedBytes !== undefined) {
+                bytesDownloaded = task.receivedBytes;
+            } else if (!entry && partial) {
+                bytesDownloaded = await this.partialBytes(partial);
+            }
+
+            items.push({
+                url: item.url,
+                cached: !!entry,
+                downloading: !!task?.running,
+                failed: !entry && !!task && !task.running && !!task.lastError,
+                bytesDownloaded,
+                bytesExpected:
+                    entry?.size ?? item.integrity?.size ?? task?.expectedBytes ?? partial?.totalBytes ?? null,
+                attempts: task?.attempts ?? 0,
+                error: entry ? undefined : task?.lastError,
+            });
+        }
 
+        let freeBytes: number | null = null;
         try {
-            const result = await downloadPromise;
-            return result;
-        } finally {
-            this.activeDownloads.delete(url);
+            freeBytes = (await RNFS.getFSInfo()).freeSpace;
+        } catch { }
+
+        const cachedCount = items.filter((i) => i.cached).length;
+        const expectedKnown = items.every((i) => i.bytesExpected !== null);
+
+        return {
+            items,
+            readyPercent: items.length > 0 ? Math.round((cachedCount / items.length) * 100) : 100,
+            bytesDownloaded: items.reduce((sum, i) => sum + i.bytesDownloaded, 0),
+            bytesExpected: expectedKnown
+                ? items.reduce((sum, i) => sum + (i.bytesExpected as number), 0)
+                : null,
+            cacheBytes: this.getCacheSize(),
+            freeBytes,
+            timestamp: Date.now(),
+        };
+    }
+
+    private notifyInventoryChange(): void {
+        if (!this.inventoryHandler || this.inventoryTimer) return;
+
+        this.inventoryTimer = setTimeout(async () => {
+            this.inventoryTimer = null;
+            try {
+                const inventory = await this.getInventory();
+                this.inventoryHandler?.(inventory);
+            } catch { }
+        }, INVENTORY_NOTIFY_DELAY_MS);
+    }
+
+    // ── Download queue ───────────────────────────────────────────
+
+    private enqueue(item: QueueItem, priority: number, order: number): DownloadTask {
+        const existing = this.tasks.get(item.url);
+        if (existing) {
+            existing.integrity = item.integrity ?? existing.integrity;
+            if (priority > existing.priority) {
+                existing.priority = priority;
+                // Needed now: skip any remaining backoff
+                existing.nextAttemptAt = 0;
+            }
+            if (order >= 0) existing.order = order;
+            return existing;
+        }
+
+        const task: DownloadTask = {
+            url: item.url,
+            integrity: item.integrity,
+            rendition: item.rendition,
+            priority,
+            order,
+            attempts: 0,
+            nextAttemptAt: 0,
+            running: false,
+            waiters: [],
+        };
+        this.tasks.set(item.url, task);
+        return task;
+    }
+
+    private cancelTask(task: DownloadTask): void {
+        if (task.running) {
+            task.stopReason = 'cancel';
+            if (task.jobId !== undefined) RNFS.stopDownload(task.jobId);
+            return;
+        }
+        this.tasks.delete(task.url);
+        task.waiters.forEach((resolve) => resolve(null));
+    }
+
+    /**
+     * Start ready tasks up to the concurrency limit, highest priority first.
+     * A priority task with no free slot pauses a background download
+     * (it resumes later from its partial segments).
+     */
+    private pump(): void {
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+
+        const now = Date.now();
+        const all = [...this.tasks.values()];
+        const running = all.filter((t) => t.running);
+        const ready = all
+            .filter((t) => !t.running && t.nextAttemptAt <= now)
+            .sort((a, b) => b.priority - a.priority || a.order - b.order);
+
+        for (const task of ready) {
+            if (running.length < MAX_CONCURRENT_DOWNLOADS) {
+                running.push(task);
+                this.runTask(task);
+                continue;
+            }
+
+            if (task.priority >= PRIORITY_NOW) {
+                const victim = running.find((t) => t.priority < PRIORITY_NOW && !t.stopReason);
+                if (victim) {
+                    // Slot frees when the paused transfer returns; runTask pumps again
+                    victim.stopReason = 'preempt';
+                    if (victim.jobId !== undefined) RNFS.stopDownload(victim.jobId);
+                }
+            }
+            break;
+        }
+
+        // Wake up for the earliest pending retry
+        const waiting = all.filter((t) => !t.running && t.nextAttemptAt > now);
+        if (waiting.length > 0) {
+            const nextAt = Math.min(...waiting.map((t) => t.nextAttemptAt));
+            this.retryTimer = setTimeout(() => this.pump(), nextAt - now);
+        }
+    }
+
+    private async runTask(task: DownloadTask): Promise<void> {
+        task.running = true;
+        task.attempts += 1;
+        task.lastError = undefined;
+
+        let path: string | null = null;
+        try {
+            path = await this._download(task);
+        } catch { }
+
+        task.running = false;
+        task.jobId = undefined;
+        const stopReason = task.stopReason;
+        task.stopReason = undefined;
+
+        if (stopReason === 'preempt' && !path) {
+            // Paused for a priority item, not a failure
+            task.attempts -= 1;
+        } else if (stopReason === 'cancel') {
+            this.tasks.delete(task.url);
+            task.waiters.splice(0).forEach((resolve) => resolve(null));
+        } else if (path) {
+            this.tasks.delete(task.url);
+            task.waiters.splice(0).forEach((resolve) => resolve(path));
+        } else {
+            const delay = Math.min(
+                RETRY_BASE_DELAY_MS * 2 ** (task.attempts - 1),
+                RETRY_MAX_DELAY_MS,
+            );
+            task.nextAttemptAt = Date.now() + delay;
+            task.lastError = task.lastError || `Attempt ${task.attempts} failed`;
+            // Back to background priority; the player streams meanwhile
+            task.priority = PRIORITY_BACKGROUND;
+            logger.warn('Cache', 'Download failed, retrying', { url: task.url, retryInS: Math.round(delay / 1000) });
+            task.waiters.splice(0).forEach((resolve) => resolve(null));
         }
+
+        this.pump();
+        this.notifyInventoryChange();
     }
 
-    private async _download(url: string): Promise<string | null> {
+    private async _download(task: DownloadTask): Promise<string | null> {
+        const { url, integrity } = task;
         try {
             // Generate filename from URL hash
             const filename = this.urlToFilename(url);
             const filePath = `${CACHE_DIR}/${filename}`;
-
-            // Download
-            const result = await RNFS.downloadFile({
-                fromUrl: url,
-                toFile: filePath,
-                background: false,
-                discretionary: false,
-            }).promise;
-
-            if (result.statusCode !== 200) {
-                // Clean up partial download
-                const exists = await RNFS.exists(filePath);
-                if (exists) await RNFS.unlink(filePath);
+            // Complete-but-unverified file; only renamed into the cache when valid
+            const tempPath = `${filePath}.part`;
+
+            // Make room up front when the size is known (playlist or an earlier
+            // partial transfer); otherwise fetchResumable does once the server says
+            task.reservedBytes = undefined;
+            const knownBytes =
+                integrity?.size || this.manifest.partials?.find((p) => p.url === url)?.totalBytes;
+            if (knownBytes && !(await this.reserveSpace(task, knownBytes))) {
                 return null;
             }
 
-            // Get file size
-            const stat = await RNFS.stat(filePath);
-            const size = parseInt(String(stat.size), 10);
+            let size = 0;
+            let sha256: string | undefined;
+            for (let attempt = 1; ; attempt++) {
+                const complete = await this.fetchResumable(url, filename, tempPath, task);
+                if (!complete) {
+                    // Segments are kept; the next prefetch resumes from them
+                    return null;
+                }
+
+                // Get file size
+                const stat = await RNFS.stat(tempPath);
+                size = parseInt(String(stat.size), 10);
+
+                const failure = await this.verifyFile(tempPath, { size }, integrity);
+                if (!failure) {
+                    sha256 = integrity?.sha256?.toLowerCase();
+                    break;
+                }
+
+                // Truncated/corrupted download: never let it reach the player
+                await this.unlinkQuietly(tempPath);
+                this.reportIntegrityFailure(
+                    url,
+                    `Download rejected (attempt ${attempt}/${MAX_INTEGRITY_ATTEMPTS}): ${failure}`,
+                );
+                task.lastError = `Integrity check failed: ${failure}`;
+                if (attempt >= MAX_INTEGRITY_ATTEMPTS) return null;
+            }
+
+            // Atomic publish: the final path only ever holds complete files
+            await this.unlinkQuietly(filePath);
+            await RNFS.moveFile(tempPath, filePath);
 
-            // Add to manifest
+            // Add to manifest (replacing any stale entry for this URL)
+            this.manifest.entries = this.manifest.entries.filter((e) => e.url !== url);
             this.manifest.entries.push({
                 url,
                 filename,
                 size,
                 accessedAt: Date.now(),
+                sha256,
+                rendition: task.rendition,
             });
 
             await this.saveManifest();
@@ -140,43 +504,282 @@ class CacheService {
     }
 
     /**
-     * Evict least-recently-used videos until total cache is under budget.
+     * Download `url` into `tempPath`, resuming earlier segments with HTTP
+     * Range requests. Returns true once the whole file is in `tempPath`,
+     * false if it is still incomplete (progress is kept for next time).
+     */
+    private async fetchResumable(
+        url: string,
+        filename: string,
+        tempPath: string,
+        task?: DownloadTask,
+    ): Promise<boolean> {
+        let partial = this.manifest.partials?.find((p) => p.url === url);
+        if (!partial) {
+            partial = { url, filename, segments: 0, updatedAt: Date.now() };
+            this.manifest.partials = [...(this.manifest.partials || []), partial];
+        }
+
+        for (let attempt = 1; attempt <= MAX_RESUME_ATTEMPTS; attempt++) {
+            // Cancelled or paused by the queue: keep segments for later
+            if (task?.stopReason) break;
+
+            const offset = await this.partialBytes(partial);
+            if (partial.totalBytes !== undefined && offset >= partial.totalBytes) break;
+
+            const index = partial.segments;
+            const segmentPath = this.segmentPath(partial, index);
+            const headers: Record<string, string> = {};
+            if (offset > 0) {
+                headers.Range = `bytes=${offset}-`;
+                if (partial.validator) headers['If-Range'] = partial.validator;
+            }
+
+            let statusCode = 0;
+            let restart = false;
+            let interrupted = false;
+            const current = partial;
+            try {
+                const download = RNFS.downloadFile({
+                    fromUrl: url,
+                    toFile: segmentPath,
+                    headers,
+                    background: false,
+                    discretionary: false,
+                    progressInterval: DOWNLOAD_PROGRESS_INTERVAL_MS,
+                    progress: (res) => {
+                        if (!task) return;
+                        task.receivedBytes = offset + res.bytesWritten;
+                        this.notifyInventoryChange();
+                    },
+                    begin: (res) => {
+                        statusCode = res.statusCode;
+                        if (res.statusCode === 200 && offset > 0) {
+                            // Range ignored or file changed (If-Range): start over
+                            restart = true;
+                            RNFS.stopDownload(res.jobId);
+                            return;
+                        }
+                        if (res.statusCode !== 200 && res.statusCode !== 206) return;
+
+                        // Record the segment now, so an app restart mid-transfer can resume it
+                        current.segments = index + 1;
+                        current.totalBytes = parseTotalBytes(res.statusCode, res.contentLength, res.headers)
+                            ?? current.totalBytes;
+                        current.validator = parseValidator(res.headers) ?? current.validator;
+                        current.updatedAt = Date.now();
+                        if (task) {
+                            task.receivedBytes = offset;
+                            task.expectedBytes = current.totalBytes;
+                        }
+                        this.saveManifest();
+
+                        // Size first known now: make room while little is written, or stop
+                        const total = current.totalBytes;
+                        if (task && total !== undefined && task.reservedBytes !== total) {
+                            this.reserveSpace(task, total).then((ok) => {
+                                if (ok || task.stopReason) return;
+                                task.stopReason = 'storage';
+                                RNFS.stopDownload(res.jobId);
+                            });
+                        }
+                    },
+                });
+                if (task) task.jobId = download.jobId;
+                const result = await download.promise;
+                statusCode = result.statusCode;
+            } catch (error: any) {
+                interrupted = true;
+                if (!restart && !task?.stopReason) {
+                    logger.warn('Cache', 'Download interrupted', { url, error: errorMessage(error) });
+                }
+            }
+
+            if (restart || statusCode === 416) {
+                // Stale partial (changed on server or past the end): start from zero.
+                // This attempt's segment isn't counted in `segments` yet: delete it too
+                await this.unlinkQuietly(segmentPath);
+                await this.discardPartial(partial, false);
+                partial.segments = 0;
+                partial.totalBytes = undefined;
+                partial.validator = undefined;
+                continue;
+            }
+
+            if (statusCode !== 0 && statusCode !== 200 && statusCode !== 206) {
+                await this.unlinkQuietly(segmentPath);
+                await this.saveManifest();
+                return false;
+            }
+
+            if (!interrupted) {
+                if (partial.totalBytes === undefined) {
+                    // No Content-Length: a cleanly finished transfer is the whole file
+                    partial.totalBytes = await this.partialBytes(partial);
+                }
+                break;
+            }
+
+            await this.saveManifest();
+            if (task?.stopReason) break;
+            await new Promise<void>((r) => setTimeout(r, RESUME_DELAY_MS));
+        }
+
+        const received = await this.partialBytes(partial);
+        if (partial.totalBytes === undefined || received < partial.totalBytes) {
+            await this.saveManifest();
+            return false;
+        }
+        if (received > partial.totalBytes) {
+            // More bytes than the server announced: segments don't line up
+            await this.discardPartial(partial, true);
+            return false;
+        }
+
+        await this.assembleSegments(partial, tempPath);
+        await this.discardPartial(partial, true);
+        return true;
+    }
+
+    /**
+     * Join segment files into `tempPath` (usually just a rename).
+     */
+    private async assembleSegments(partial: PartialDownload, tempPath: string): Promise<void> {
+        await this.unlinkQuietly(tempPath);
+        await RNFS.moveFile(this.segmentPath(partial, 0), tempPath);
+
+        for (let i = 1; i < partial.segments; i++) {
+            const segmentPath = this.segmentPath(partial, i);
+            if (!(await RNFS.exists(segmentPath))) continue;
+
+            const stat = await RNFS.stat(segmentPath);
+            const length = parseInt(String(stat.size), 10);
+            for (let position = 0; position < length; position += ASSEMBLE_CHUNK_BYTES) {
+                const chunk = await RNFS.read(
+                    segmentPath,
+                    Math.min(ASSEMBLE_CHUNK_BYTES, length - position),
+                    position,
+                    'base64',
+                );
+                await RNFS.appendFile(tempPath, chunk, 'base64');
+            }
+            await RNFS.unlink(segmentPath);
+        }
+    }
+
+    /**
+     * Bytes received so far: the sum of the segment files on disk.
      */
-    private async evictOldVideos(): Promise<void> {
+    private async partialBytes(partial: PartialDownload): Promise<number> {
+        let total = 0;
+        for (let i = 0; i < partial.segments; i++) {
+            try {
+                const stat = await RNFS.stat(this.segmentPath(partial, i));
+                total += parseInt(String(stat.size), 10);
+            } catch { }
+        }
+        return total;
+    }
+
+    /**
+     * Delete a partial download's segments, and optionally forget it.
+     */
+    private async discardPartial(partial: PartialDownload, forget: boolean): Promise<void> {
+        for (let i = 0; i < Math.max(partial.segments, 1); i++) {
+            await this.unlinkQuietly(this.segmentPath(partial, i));
+        }
+        if (forget) {
+            this.manifest.partials = (this.manifest.partials || []).filter((p) => p !== partial);
+        }
+        await this.saveManifest();
+    }
+
+    private async discardStalePartials(): Promise<void> {
+        const cutoff = Date.now() - PARTIAL_TTL_MS;
+        const stale = (this.manifest.partials || []).filter((p) => p.updatedAt < cutoff);
+        for (const partial of stale) {
+            await this.discardPartial(partial, true);
+        }
+    }
+
+    private segmentPath(partial: PartialDownload, index: number): string {
+        return `${CACHE_DIR}/${partial.filename}.part${index}`;
+    }
+
+    /**
+     * Evict unpinned entries (other-orientation renditions first, then
+     * least recently used) until the cache, plus `bytesNeeded` for an
+     * upcoming download, fits both MAX_CACHE_MB and the MIN_FREE_MB reserve.
+     * Returns false if it can't fit without touching pinned content.
+     */
+    private async evictOldVideos(bytesNeeded = 0): Promise<boolean> {
         let totalSize = this.manifest.entries.reduce((sum, e) => sum + e.size, 0);
 
-        let maxCacheBytes = FALLBACK_MAX_CACHE_BYTES;
+        let freeSpace = Infinity;
         try {
             const fsInfo = await RNFS.getFSInfo();
-            // Use 90% of device total storage for cache limit
-            maxCacheBytes = fsInfo.totalSpace * 0.90;
+            freeSpace = fsInfo.freeSpace;
         } catch (err) {
-            console.warn('[CacheService] Failed to get FS info for dynamic cache limit. Using fallback.', err);
+            logger.warn('Cache', 'Failed to get FS info. Enforcing MAX_CACHE_MB only.', { error: errorMessage(err) });
         }
 
-        if (totalSize <= maxCacheBytes) return;
+        const fits = () =>
+            totalSize + bytesNeeded <= MAX_CACHE_BYTES &&
+            freeSpace - bytesNeeded >= MIN_FREE_BYTES;
 
-        // Sort by oldest access first
-        const sorted = [...this.manifest.entries].sort(
-            (a, b) => a.accessedAt - b.accessedAt,
-        );
+        if (fits()) return true;
 
-        for (const entry of sorted) {
-            if (totalSize <= maxCacheBytes) break;
+        const pinned = new Set(this.pinnedUrls());
+        // Renditions for other orientations go first, then oldest access first
+        const isOtherRendition = (e: CacheEntry) =>
+            e.rendition !== undefined && e.rendition !== this.orientation ? 0 : 1;
+        const candidates = this.manifest.entries
+            .filter((e) => !pinned.has(e.url))
+            .sort((a, b) => isOtherRendition(a) - isOtherRendition(b) || a.accessedAt - b.accessedAt);
 
-            const filePath = `${CACHE_DIR}/${entry.filename}`;
-            try {
-                const exists = await RNFS.exists(filePath);
-                if (exists) await RNFS.unlink(filePath);
-            } catch { }
+        for (const entry of candidates) {
+            if (fits()) break;
+
+            await this.unlinkQuietly(`${CACHE_DIR}/${entry.filename}`);
 
             totalSize -= entry.size;
+            freeSpace += entry.size;
             this.manifest.entries = this.manifest.entries.filter(
                 (e) => e.url !== entry.url,
             );
         }
 
         await this.saveManifest();
+        this.notifyInventoryChange();
+
+        if (!fits()) {
+            logger.warn('Cache', 'Cache budget exceeded by pinned content', {
+                cachedMb: Math.round(totalSize / 1048576),
+                neededMb: Math.round(bytesNeeded / 1048576),
+                limitMb: MAX_CACHE_MB,
+                reserveMb: MIN_FREE_MB,
+            });
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Evict so the rest of a `totalBytes` download fits (segments already
+     * on disk are part of the used space). Sets the task error if it can't.
+     */
+    private async reserveSpace(task: DownloadTask, totalBytes: number): Promise<boolean> {
+        task.reservedBytes = totalBytes;
+        const partial = this.manifest.partials?.find((p) => p.url === task.url);
+        const received = partial ? await this.partialBytes(partial) : 0;
+        if (await this.evictOldVideos(Math.max(0, totalBytes - received))) return true;
+
+        task.lastError = 'Insufficient storage';
+        return false;
+    }
+
+    private pinnedUrls(): string[] {
+        return [...this.wanted, ...this.upcoming].map((item) => item.url);
     }
 
     /**
@@ -189,7 +792,8 @@ class CacheService {
                 await RNFS.unlink(CACHE_DIR);
                 await RNFS.mkdir(CACHE_DIR);
             }
-            this.manifest = { entries: [] };
+            this.manifest = { entries: [], partials: [] };
+            this.notifyInventoryChange();
         } catch { }
     }
 
@@ -202,6 +806,62 @@ class CacheService {
 
     // ── Helpers ──────────────────────────────────────────────────
 
+    /**
+     * Check a file against its recorded size and the expected size/SHA-256.
+     * Returns a failure description, or null if the file is OK.
+     */
+    private async verifyFile(
+        filePath: string,
+        known: { size: number; sha256?: string },
+        integrity?: CacheIntegrity,
+    ): Promise<string | null> {
+        try {
+            const stat = await RNFS.stat(filePath);
+            const actualSize = parseInt(String(stat.size), 10);
+
+            if (actualSize !== known.size) {
+                return `size ${actualSize} does not match recorded ${known.size}`;
+            }
+            if (integrity?.size && actualSize !== integrity.size) {
+                return `size ${actualSize} does not match expected ${integrity.size}`;
+            }
+
+            const expectedHash = (integrity?.sha256 || known.sha256)?.toLowerCase();
+            if (!expectedHash) return null;
+
+            // Keyed by mtime so a rewritten file is always hashed again
+            const memoKey = `${filePath}|${String(stat.mtime)}|${expectedHash}`;
+            if (this.verifiedHashes.has(memoKey)) return null;
+
+            const actualHash = (await RNFS.hash(filePath, 'sha256')).toLowerCase();
+            if (actualHash !== expectedHash) {
+                return `sha256 ${actualHash} does not match expected ${expectedHash}`;
+            }
+
+            this.verifiedHashes.add(memoKey);
+            return null;
+        } catch (error: any) {
+            return `verification failed: ${error?.message || error}`;
+        }
+    }
+
+    private reportIntegrityFailure(url: string, reason: string): void {
+        logger.warn('Cache', '🧩 Cache Integrity Failure', { detail: reason, URL: url });
+    }
+
+    private async removeEntry(entry: CacheEntry): Promise<void> {
+        await this.unlinkQuietly(`${CACHE_DIR}/${entry.filename}`);
+        this.manifest.entries = this.manifest.entries.filter((e) => e.url !== entry.url);
+        await this.saveManifest();
+        this.notifyInventoryChange();
+    }
+
+    private async unlinkQuietly(filePath: string): Promise<void> {
+        try {
+            if (await RNFS.exists(filePath)) await RNFS.unlink(filePath);
+        } catch { }
+    }
+
     private urlToFilename(url: string): string {
         // Simple hash: use last path segment + timestamp suffix
         const parts = url.split('/');
@@ -234,15 +894,91 @@ class CacheService {
         }
     }
 
-    private async saveManifest(): Promise<void> {
-        try {
-            await RNFS.writeFile(
-                MANIFEST_PATH,
-                JSON.stringify(this.manifest),
-                'utf8',
-            );
-        } catch { }
+    // Each queued write serialises the manifest as it is when the write runs
+    private saveManifest(): Promise<void> {
+        this.manifestChain = this.manifestChain
+            .then(() => RNFS.writeFile(MANIFEST_PATH, JSON.stringify(this.manifest), 'utf8'))
+            .catch(() => { });
+        return this.manifestChain;
+    }
+}
+
+/**
+ * Resolve the {deg} placeholder in a CDN URL for the given orientation.
+ * Server encodes videos into 4 rotation profiles: deg0, deg90, deg180, deg270.
+ * The playlist URL contains {deg} placeholder, e.g.: .../videos/folder/{deg}.mp4
+ */
+export function resolveUrl(url: string, orientation: Orientation): string {
+    const deg = parseInt(String(orientation), 10) || 0;
+    return url.replace('{deg}', `deg${deg}`);
+}
+
+/**
+ * Build the cache request for a playlist item in the given orientation.
+ */
+export function toQueueItem(source: VideoSource, orientation: Orientation): QueueItem {
+    if (!source.url.includes('{deg}')) {
+        return {
+            url: source.url,
+            integrity: { sha256: source.sha256, size: source.size },
+        };
+    }
+
+    // Top-level size/hash can't describe all four renditions
+    const integrity = source.renditions?.[orientation];
+    if (!integrity) warnMissingRendition(source, orientation);
+    return {
+        url: resolveUrl(source.url, orientation),
+        integrity,
+        rendition: orientation,
+    };
+}
+
+// Template URLs + orientation already warned about (once per app session)
+const missingRenditionWarnings = new Set<string>();
+
+function warnMissingRendition(source: VideoSource, orientation: Orientation): void {
+    const key = `${source.url}|${orientation}`;
+    if (missingRenditionWarnings.has(key)) return;
+    missingRenditionWarnings.add(key);
+
+    logger.warn('Cache', 'No rendition integrity data, download unverified', {
+        url: source.url,
+        orientation,
+        // Set but unusable: they would reject the other renditions
+        ignoredTopLevel: source.size !== undefined || source.sha256 !== undefined,
+    });
+}
+
+// ── HTTP header parsing ──────────────────────────────────────
+
+function getHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+    if (!headers) return undefined;
+    const key = Object.keys(headers).find((k) => k.toLowerCase() === name.toLowerCase());
+    return key ? headers[key] : undefined;
+}
+
+/**
+ * Full resource size: from Content-Range on 206 ("bytes 0-99/1234"),
+ * from Content-Length on 200. Undefined when the server doesn't say.
+ */
+function parseTotalBytes(
+    statusCode: number,
+    contentLength: number,
+    headers: Record<string, string> | undefined,
+): number | undefined {
+    if (statusCode === 206) {
+        const match = /\/(\d+)\s*$/.exec(getHeader(headers, 'Content-Range') || '');
+        return match ? parseInt(match[1], 10) : undefined;
     }
+    return contentLength > 0 ? contentLength : undefined;
+}
+
+function parseValidator(headers: Record<string, string> | undefined): string | undefined {
+    const etag = getHeader(headers, 'ETag');
+    // Weak ETags are not allowed in If-Range
+    if (etag && !etag.startsWith('W/')) return etag;
+    return getHeader(headers, 'Last-Modified');
 }
 
 export const cacheService = new CacheService();
@@ -0,0 +1,104 @@
+/**
+ * ClockService — Server-corrected "now"
+ *
+ * Cheap Android boxes drift by minutes or boot at 1970 after a power cut.
+ * SocketService runs a ping/pong exchange with the server; each reply is a
+ * sample of the offset between the server clock and ours (NTP-style, assuming
+ * a symmetric path). Everything that makes a wall-clock decision (schedules,
+ * dayparting, the 3 AM reset, alert expiry, sync group start times) reads
+ * time from here. Durations measured on the device keep using Date.now().
+ *
+ * Until the first reply the device clock is used as-is.
+ */
+
+import { logger } from './Logger';
+
+// Keep this many recent samples
+const MAX_SAMPLES = 8;
+// Offset is the median of the lowest-delay samples: queued replies skew it
+const BEST_SAMPLES = 3;
+// Replies slower than this carry too much uncertainty to use
+const MAX_ROUND_TRIP_MS = 5000;
+// Worth telling the dashboard about: schedules would fire noticeably off
+const REPORT_OFFSET_MS = 60000;
+
+interface ClockSample {
+    offsetMs: number;
+    roundTripMs: number;
+    at: number;
+}
+
+/** Current clock estimate, reported in the heartbeat. */
+export interface ClockStatus {
+    synced: boolean;
+    offsetMs: number;
+    roundTripMs: number | null;
+    lastSyncAt: number | null;
+}
+
+class ClockService {
+    private samples: ClockSample[] = [];
+    private offsetMs = 0;
+    private roundTripMs: number | null = null;
+    private lastSyncAt: number | null = null;
+    private reported = false;
+
+    /**
+     * Server time in epoch ms (device clock until the first sample).
+     */
+    now(): number {
+        return Date.now() + this.offsetMs;
+    }
+
+    /**
+     * Server time as a Date, for local-time calculations (schedules).
+     */
+    date(): Date {
+        return new Date(this.now());
+    }
+
+    /**
+     * Feed one ping/pong exchange: when we sent it, the server's clock when
+     * it answered, and when the answer arrived (both client times by Date.now()).
+     */
+    addSample(clientSentAt: number, serverTime: number, clientReceivedAt: number): void {
+        const roundTripMs = clientReceivedAt - clientSentAt;
+        if (roundTripMs < 0 || roundTripMs > MAX_ROUND_TRIP_MS) return;
+
+        const offsetMs = serverTime - (clientSentAt + roundTripMs / 2);
+        this.samples.push({ offsetMs, roundTripMs, at: clientReceivedAt });
+        if (this.samples.length > MAX_SAMPLES) this.samples.shift();
+
+        const best = [...this.samples]
+            .sort((a, b) => a.roundTripMs - b.roundTripMs)
+            .slice(0, BEST_SAMPLES);
+        const offsets = best.map((s) => s.offsetMs).sort((a, b) => a - b);
+        const previous = this.offsetMs;
+
+        this.offsetMs = Math.round(offsets[Math.floor(offsets.length / 2)]);
+        this.roundTripMs = best[0].roundTripMs;
+        this.lastSyncAt = clientReceivedAt;
+
+        if (Math.abs(this.offsetMs - previous) > 1000) {
+            logger.info('Clock', 'Offset updated', { offsetMs: this.offsetMs, roundTripMs: this.roundTripMs });
+        }
+
+        if (!this.reported && Math.abs(this.offsetMs) > REPORT_OFFSET_MS) {
+            this.reported = true;
+            logger.warn('Clock', '🕒 Device Clock Off', {
+                detail: `Device clock differs from the server by ${Math.round(this.offsetMs / 1000)}s. Using server time.`,
+            });
+        }
+    }
+
+    getStatus(): ClockStatus {
+        return {
+            synced: this.lastSyncAt !== null,
+            offsetMs: this.offsetMs,
+            roundTripMs: this.roundTripMs,
+            lastSyncAt: this.lastSyncAt,
+        };
+    }
+}
+
+export const clockService = new ClockService();
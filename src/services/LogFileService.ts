@@ -0,0 +1,151 @@
+/**
+ * LogFileService — Rotating log file on the device
+ *
+ * Receives formatted lines from the file transport (LogTransports) and keeps
+ * them in a size-capped ring of files: `player.log` is written until it
+ * reaches MAX_FILE_BYTES, then shifted to `player.log.1` (and `.1` to `.2`,
+ * the oldest being deleted). Writes are batched and serialised.
+ *
+ * Support reads it back remotely: the `get_logs` command uploads the last N
+ * lines or a time range over the socket (see App.tsx).
+ */
+
+import RNFS from 'react-native-fs';
+
+const LOG_DIR = `${RNFS.DocumentDirectoryPath}/logs`;
+const LOG_FILE = `${LOG_DIR}/player.log`;
+const MAX_FILE_BYTES = 512 * 1024;
+// Current file plus rotated ones: ~1.5MB of history at most
+const MAX_FILES = 3;
+const FLUSH_INTERVAL_MS = 2000;
+// Upper bound for one upload, newest lines kept
+export const MAX_READ_LINES = 5000;
+
+export interface LogQuery {
+    // Last N lines (of the range, if one is given)
+    lines?: number;
+    // Time range in device epoch ms, inclusive
+    since?: number;
+    until?: number;
+}
+
+export interface LogQueryResult {
+    lines: string[];
+    // More lines matched than were returned
+    truncated: boolean;
+}
+
+class LogFileService {
+    private pending: string[] = [];
+    private flushTimer: ReturnType<typeof setTimeout> | null = null;
+    // Bytes in the current file; unknown until first checked
+    private size: number | null = null;
+    // Serialises appends, rotations and reads
+    private writeChain: Promise<void> = Promise.resolve();
+
+    /**
+     * Queue one line (without newline) for the current file.
+     */
+    append(line: string): void {
+        this.pending.push(`${line}\n`);
+        if (!this.flushTimer) {
+            this.flushTimer = setTimeout(() => this.flush(), FLUSH_INTERVAL_MS);
+        }
+    }
+
+    /**
+     * Write queued lines now. Resolves once they are on disk.
+     */
+    flush(): Promise<void> {
+        if (this.flushTimer) {
+            clearTimeout(this.flushTimer);
+            this.flushTimer = null;
+        }
+        const content = this.pending.join('');
+        this.pending = [];
+        if (!content) return this.writeChain;
+
+        return this.enqueue(async () => {
+            if (this.size === null) {
+                await RNFS.mkdir(LOG_DIR);
+                this.size = (await RNFS.exists(LOG_FILE)) ? Number((await RNFS.stat(LOG_FILE)).size) : 0;
+            }
+            const bytes = utf8Length(content);
+            if (this.size > 0 && this.size + bytes > MAX_FILE_BYTES) {
+                await this.rotate();
+            }
+            await RNFS.appendFile(LOG_FILE, content, 'utf8');
+            this.size += bytes;
+        });
+    }
+
+    /**
+     * Lines from all files, oldest first, filtered by the query.
+     * Lines start with an ISO timestamp; a time range skips any that don't.
+     */
+    async read(query: LogQuery = {}): Promise<LogQueryResult> {
+        await this.flush();
+
+        let content = '';
+        await this.enqueue(async () => {
+            for (const path of this.filePaths().reverse()) {
+                if (await RNFS.exists(path)) {
+                    content += await RNFS.readFile(path, 'utf8');
+                }
+            }
+        });
+
+        let lines = content.split('\n').filter((line) => line.length > 0);
+        if (query.since !== undefined || query.until !== undefined) {
+            const since = query.since ?? -Infinity;
+            const until = query.until ?? Infinity;
+            lines = lines.filter((line) => {
+                const time = Date.parse(line.slice(0, line.indexOf(' ')));
+                return !isNaN(time) && time >= since && time <= until;
+            });
+        }
+
+        const limit = Math.min(Math.max(1, query.lines ?? MAX_READ_LINES), MAX_READ_LINES);
+        const truncated = lines.length > limit;
+        return { lines: truncated ? lines.slice(-limit) : lines, truncated };
+    }
+
+    // player.log, player.log.1, … newest first
+    private filePaths(): string[] {
+        return Array.from({ length: MAX_FILES }, (_, i) => (i === 0 ? LOG_FILE : `${LOG_FILE}.${i}`));
+    }
+
+    private async rotate(): Promise<void> {
+        const paths = this.filePaths();
+        const oldest = paths[paths.length - 1];
+        if (await RNFS.exists(oldest)) await RNFS.unlink(oldest);
+        for (let i = paths.length - 2; i >= 0; i--) {
+            if (await RNFS.exists(paths[i])) await RNFS.moveFile(paths[i], paths[i + 1]);
+        }
+        this.size = 0;
+    }
+
+    private enqueue(task: () => Promise<void>): Promise<void> {
+        this.writeChain = this.writeChain.then(task).catch(() => {
+            // Nowhere left to report a failing log file; re-check size next time
+            this.size = null;
+        });
+        return this.writeChain;
+    }
+}
+
+function utf8Length(text: string): number {
+    let bytes = 0;
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        if (code < 0x80) bytes += 1;
+        else if (code < 0x800) bytes += 2;
+        else if (code >= 0xd800 && code <= 0xdbff) {
+            bytes += 4;
+            i++;
+        } else bytes += 3;
+    }
+    return bytes;
+}
+
+export const logFileService = new LogFileService();
@@ -0,0 +1,248 @@
+/**
+ * LogTransports — Destinations for Logger entries
+ *
+ *   - Console: development output (and `adb logcat`)
+ *   - Discord: webhook embeds for notable events, queued and paced instead
+ *     of dropped when they come in bursts
+ *   - HTTP: batched JSON POSTs to any collector (`LOG_HTTP_URL`)
+ *   - Socket: batched `log` events to the signage server
+ *   - File: the rotating on-device log (LogFileService)
+ *
+ * `setupLogging()` registers the default set; call it once at startup.
+ */
+
+import { DISCORD_WEBHOOK_URL, LOG_HTTP_URL } from '@env';
+import { LogEntry, LogLevel, LogTransport, formatEntry, formatValue, logger } from './Logger';
+import { socketService } from './SocketService';
+import { logFileService } from './LogFileService';
+import { statusService } from './StatusService';
+
+// Discord allows ~30 webhook posts a minute; stay well under it
+const DISCORD_MIN_INTERVAL_MS = 2500;
+const DISCORD_MAX_QUEUE = 50;
+const BATCH_FLUSH_INTERVAL_MS = 10000;
+const BATCH_MAX_SIZE = 50;
+// Entries kept while a batching transport can't deliver
+const BATCH_MAX_BUFFER = 500;
+
+const DISCORD_COLORS: Record<LogLevel, number> = {
+    debug: 9807270, // Gray
+    info: 3447003, // Blue
+    notice: 5763719, // Green
+    warn: 16776960, // Yellow
+    error: 15548997, // Red
+};
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// ── Console ──────────────────────────────────────────────────
+
+export class ConsoleTransport implements LogTransport {
+    name = 'console';
+
+    constructor(public minLevel: LogLevel = 'debug') { }
+
+    send(entry: LogEntry): void {
+        const line = formatEntry(entry);
+        if (entry.level === 'error') console.error(line);
+        else if (entry.level === 'warn') console.warn(line);
+        else console.log(line);
+    }
+}
+
+// ── Discord ──────────────────────────────────────────────────
+
+/**
+ * Posts one embed per entry: the message as title, fields as
+ * "**key:** value" lines (a `detail` field as plain text), device last.
+ */
+export class DiscordTransport implements LogTransport {
+    name = 'discord';
+    private queue: LogEntry[] = [];
+    private sending = false;
+    private overflow = 0;
+
+    constructor(private webhookUrl: string, public minLevel: LogLevel = 'notice') { }
+
+    send(entry: LogEntry): void {
+        this.queue.push(entry);
+        if (this.queue.length > DISCORD_MAX_QUEUE) {
+            this.queue.shift();
+            this.overflow += 1;
+        }
+        this.drain();
+    }
+
+    private async drain(): Promise<void> {
+        if (this.sending) return;
+        this.sending = true;
+
+        try {
+            while (this.queue.length > 0) {
+                const entry = this.queue.shift() as LogEntry;
+                await this.post(entry);
+                await delay(DISCORD_MIN_INTERVAL_MS);
+            }
+        } finally {
+            this.sending = false;
+        }
+    }
+
+    private async post(entry: LogEntry): Promise<void> {
+        const { detail, ...rest } = entry.fields || {};
+        const lines: string[] = [];
+        if (detail !== undefined) lines.push(formatValue(detail));
+        for (const [key, value] of Object.entries(rest)) {
+            if (value !== undefined) lines.push(`**${key}:** ${formatValue(value)}`);
+        }
+        const { name, code, id } = entry.device;
+        lines.push(`**Device:** ${name} | **Code:** ${code} | **ID:** ${id}`);
+
+        const notes: string[] = [];
+        if (entry.repeats) notes.push(`×${entry.repeats} more in last minute`);
+        if (this.overflow > 0) {
+            notes.push(`${this.overflow} older events skipped (queue full)`);
+            this.overflow = 0;
+        }
+
+        try {
+            await fetch(this.webhookUrl, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    embeds: [
+                        {
+                            title: entry.message,
+                            description: lines.join('\n'),
+                            color: DISCORD_COLORS[entry.level],
+                            timestamp: new Date(entry.timestamp).toISOString(),
+                            footer: notes.length > 0 ? { text: notes.join(' · ') } : undefined,
+                        },
+                    ],
+                }),
+            });
+        } catch {
+            // Best-effort: Discord being down must not back up the app
+        }
+    }
+}
+
+// ── Batching (HTTP, socket) ──────────────────────────────────
+
+/**
+ * Buffers entries and delivers them in batches every few seconds.
+ * Undelivered batches stay buffered (oldest dropped past the cap).
+ */
+abstract class BatchingTransport implements LogTransport {
+    abstract name: string;
+    private buffer: LogEntry[] = [];
+    private flushing = false;
+    private timer: ReturnType<typeof setInterval> | null = null;
+
+    constructor(public minLevel: LogLevel) { }
+
+    send(entry: LogEntry): void {
+        this.buffer.push(entry);
+        if (this.buffer.length > BATCH_MAX_BUFFER) {
+            this.buffer.splice(0, this.buffer.length - BATCH_MAX_BUFFER);
+        }
+        if (!this.timer) {
+            this.timer = setInterval(() => this.flush(), BATCH_FLUSH_INTERVAL_MS);
+        }
+        if (this.buffer.length >= BATCH_MAX_SIZE) {
+            this.flush();
+        }
+    }
+
+    protected abstract deliver(entries: LogEntry[]): Promise<boolean>;
+
+    private async flush(): Promise<void> {
+        if (this.flushing || this.buffer.length === 0) return;
+        this.flushing = true;
+
+        try {
+            const batch = this.buffer.slice(0, BATCH_MAX_SIZE);
+            if (await this.deliver(batch)) {
+                this.buffer.splice(0, batch.length);
+            }
+        } catch {
+            // Keep the batch for the next attempt
+        } finally {
+            this.flushing = false;
+        }
+    }
+}
+
+/**
+ * POSTs `{ entries: LogEntry[] }` as JSON.
+ */
+export class HttpTransport extends BatchingTransport {
+    name = 'http';
+
+    constructor(private url: string, minLevel: LogLevel = 'info') {
+        super(minLevel);
+    }
+
+    protected async deliver(entries: LogEntry[]): Promise<boolean> {
+        const response = await fetch(this.url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ entries }),
+        });
+        return response.ok;
+    }
+}
+
+/**
+ * Emits `log { entries }` to the signage server while connected.
+ */
+export class SocketTransport extends BatchingTransport {
+    name = 'socket';
+
+    constructor(minLevel: LogLevel = 'warn') {
+        super(minLevel);
+    }
+
+    protected async deliver(entries: LogEntry[]): Promise<boolean> {
+        return socketService.sendLogs(entries);
+    }
+}
+
+// ── File ─────────────────────────────────────────────────────
+
+/**
+ * Writes "ISO-time LEVEL [Tag] message fields" lines; the timestamp first
+ * lets `get_logs` select a time range.
+ */
+export class FileTransport implements LogTransport {
+    name = 'file';
+
+    constructor(public minLevel: LogLevel = 'info') { }
+
+    send(entry: LogEntry): void {
+        const time = new Date(entry.timestamp).toISOString();
+        logFileService.append(`${time} ${entry.level.toUpperCase()} ${formatEntry(entry)}`);
+    }
+}
+
+// ── Setup ────────────────────────────────────────────────────
+
+/**
+ * Register the default transports. Discord and HTTP only when configured.
+ * Warning and error counts go into the heartbeat.
+ */
+export function setupLogging(): void {
+    statusService.register('logs', () => {
+        const { warn, error } = logger.getCounts();
+        return { counters: { warningsLogged: warn, errorsLogged: error } };
+    });
+    logger.addTransport(new ConsoleTransport(__DEV__ ? 'debug' : 'info'));
+    logger.addTransport(new FileTransport('info'));
+    logger.addTransport(new SocketTransport('warn'));
+    if (DISCORD_WEBHOOK_URL) {
+        logger.addTransport(new DiscordTransport(DISCORD_WEBHOOK_URL, 'notice'));
+    }
+    if (LOG_HTTP_URL) {
+        logger.addTransport(new HttpTransport(LOG_HTTP_URL, 'info'));
+    }
+}
@@ -0,0 +1,214 @@
+/**
+ * Logger — Levelled, structured logging with pluggable transports
+ *
+ * Every log line goes through one pipeline: level + tag + message + fields,
+ * stamped with the device identity, then fanned out to the registered
+ * transports (console, Discord, HTTP, socket, file — see LogTransports).
+ * Each transport has its own minimum level.
+ *
+ * Levels: debug < info < notice < warn < error. `notice` is for operational
+ * events worth a human's attention that aren't problems (session refresh,
+ * daily reset); Discord receives notice and above.
+ *
+ * Identical events (same level, tag, message and fields) repeating within
+ * a minute are folded: the first goes out immediately, the rest are counted
+ * and sent once as a single "×N in last minute" entry.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'notice' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface DeviceInfo {
+    name: string;
+    code: string;
+    id: string;
+}
+
+export interface LogEntry {
+    level: LogLevel;
+    // Subsystem, e.g. 'Socket', 'Cache', 'Player'
+    tag: string;
+    message: string;
+    fields?: LogFields;
+    timestamp: number;
+    device: DeviceInfo;
+    // Set on aggregated entries: occurrences folded into this one
+    repeats?: number;
+    // Start of the aggregation window
+    since?: number;
+}
+
+export interface LogTransport {
+    name: string;
+    minLevel: LogLevel;
+    send(entry: LogEntry): void;
+}
+
+const LEVEL_RANK: Record<LogLevel, number> = {
+    debug: 0,
+    info: 1,
+    notice: 2,
+    warn: 3,
+    error: 4,
+};
+
+// Repeats of one event are folded over this window
+const AGGREGATE_WINDOW_MS = 60000;
+
+interface Aggregate {
+    last: LogEntry;
+    repeats: number;
+    since: number;
+}
+
+export function isAtLeast(level: LogLevel, minLevel: LogLevel): boolean {
+    return LEVEL_RANK[level] >= LEVEL_RANK[minLevel];
+}
+
+class Logger {
+    private transports: LogTransport[] = [];
+    private device: DeviceInfo = { name: 'Unknown', code: 'N/A', id: 'No ID' };
+    private aggregates = new Map<string, Aggregate>();
+    // Entries logged since boot, per level (folded repeats included)
+    private counts: Record<LogLevel, number> = { debug: 0, info: 0, notice: 0, warn: 0, error: 0 };
+
+    /**
+     * Register a transport (replaces one with the same name).
+     */
+    addTransport(transport: LogTransport): void {
+        this.transports = [...this.transports.filter((t) => t.name !== transport.name), transport];
+    }
+
+    removeTransport(name: string): void {
+        this.transports = this.transports.filter((t) => t.name !== name);
+    }
+
+    /**
+     * Set device info stamped on all future entries.
+     */
+    setDeviceInfo(info: DeviceInfo): void {
+        this.device = info;
+    }
+
+    debug(tag: string, message: string, fields?: LogFields): void {
+        this.log('debug', tag, message, fields);
+    }
+
+    info(tag: string, message: string, fields?: LogFields): void {
+        this.log('info', tag, message, fields);
+    }
+
+    notice(tag: string, message: string, fields?: LogFields): void {
+        this.log('notice', tag, message, fields);
+    }
+
+    warn(tag: string, message: string, fields?: LogFields): void {
+        this.log('warn', tag, message, fields);
+    }
+
+    error(tag: string, message: string, fields?: LogFields): void {
+        this.log('error', tag, message, fields);
+    }
+
+    getCounts(): Record<LogLevel, number> {
+        return { ...this.counts };
+    }
+
+    log(level: LogLevel, tag: string, message: string, fields?: LogFields): void {
+        this.counts[level] += 1;
+        const entry: LogEntry = {
+            level,
+            tag,
+            message,
+            fields,
+            timestamp: Date.now(),
+            device: this.device,
+        };
+
+        // Fields are part of the key: different URLs or errors stay separate
+        const key = `${level}|${tag}|${message}|${fieldsKey(fields)}`;
+        const aggregate = this.aggregates.get(key);
+        if (aggregate) {
+            // Within the window: count it, report once when the window closes
+            aggregate.repeats += 1;
+            aggregate.last = entry;
+            return;
+        }
+
+        this.aggregates.set(key, { last: entry, repeats: 0, since: entry.timestamp });
+        setTimeout(() => this.closeWindow(key), AGGREGATE_WINDOW_MS);
+        this.dispatch(entry);
+    }
+
+    private closeWindow(key: string): void {
+        const aggregate = this.aggregates.get(key);
+        this.aggregates.delete(key);
+        if (!aggregate || aggregate.repeats === 0) return;
+
+        this.dispatch({
+            ...aggregate.last,
+            repeats: aggregate.repeats,
+            since: aggregate.since,
+        });
+    }
+
+    private dispatch(entry: LogEntry): void {
+        for (const transport of this.transports) {
+            if (!isAtLeast(entry.level, transport.minLevel)) continue;
+            try {
+                transport.send(entry);
+            } catch {
+                // Logging is best-effort; never crash the app for it
+            }
+        }
+    }
+}
+
+// Same fields in any key order give the same string
+function fieldsKey(fields?: LogFields): string {
+    if (!fields) return '';
+    return Object.keys(fields)
+        .filter((key) => fields[key] !== undefined)
+        .sort()
+        .map((key) => `${key}=${formatValue(fields[key])}`)
+        .join('|');
+}
+
+/**
+ * One-line rendering shared by text transports:
+ * "[Tag] message key=value (×3 in last minute)".
+ */
+export function formatEntry(entry: LogEntry): string {
+    const fields = entry.fields
+        ? Object.entries(entry.fields)
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => `${key}=${formatValue(value)}`)
+            .join(' ')
+        : '';
+    const repeats = entry.repeats ? ` (×${entry.repeats} in last minute)` : '';
+    return `[${entry.tag}] ${entry.message}${fields ? ` ${fields}` : ''}${repeats}`;
+}
+
+export function formatValue(value: unknown): string {
+    if (value instanceof Error) return value.message;
+    if (typeof value === 'string') return value;
+    try {
+        return JSON.stringify(value);
+    } catch {
+        return String(value);
+    }
+}
+
+/**
+ * Message of a caught error of unknown shape.
+ */
+export function errorMessage(error: unknown): string {
+    if (error instanceof Error) return error.message;
+    if (typeof error === 'object' && error && 'message' in error) {
+        return String((error as { message: unknown }).message);
+    }
+    return String(error);
+}
+
+export const logger = new Logger();
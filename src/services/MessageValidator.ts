@@ -0,0 +1,315 @@
+/**
+ * MessageValidator — Runtime check of server messages
+ *
+ * The socket delivers whatever the server sends; a buggy release must not
+ * be able to blank the screen. SocketService runs every incoming message
+ * through `validateMessage` and only passes valid ones on, typed as
+ * WebSocketMessage. Invalid ones are rejected with the path of the first
+ * problem (e.g. "payload.playlist[2].url: expected non-empty string").
+ * A type this player doesn't know (added by a newer server) is flagged
+ * `unknownType` rather than treated as a fault.
+ *
+ * Unknown extra fields are allowed, so the server can add fields before
+ * the player understands them. Orientation may arrive as a number and is
+ * normalised to its string form. Device settings are only checked to be an
+ * object here; SettingsService bounds-checks each value.
+ */
+
+import { ContentMessage, Orientation, WebSocketMessage, WebSocketMessageType } from '../types';
+
+export type ValidationResult =
+    | { ok: true; message: WebSocketMessage }
+    | { ok: false; type: string | null; error: string; unknownType?: boolean };
+
+// Returns the first problem found, or null when valid
+type Check = (value: unknown, path: string) => string | null;
+
+type Shape = Record<string, Check>;
+
+// ── Building blocks ──────────────────────────────────────────
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const str: Check = (value, path) =>
+    typeof value === 'string' ? null : `${path}: expected string`;
+
+const nonEmptyStr: Check = (value, path) =>
+    typeof value === 'string' && value.length > 0 ? null : `${path}: expected non-empty string`;
+
+const num: Check = (value, path) =>
+    typeof value === 'number' && isFinite(value) ? null : `${path}: expected number`;
+
+const nonNegative: Check = (value, path) =>
+    typeof value === 'number' && isFinite(value) && value >= 0 ? null : `${path}: expected number >= 0`;
+
+const bool: Check = (value, path) =>
+    typeof value === 'boolean' ? null : `${path}: expected boolean`;
+
+const oneOf = (values: readonly string[]): Check => (value, path) =>
+    typeof value === 'string' && values.includes(value)
+        ? null
+        : `${path}: expected one of ${values.join(', ')}`;
+
+const optional = (check: Check): Check => (value, path) =>
+    value === undefined ? null : check(value, path);
+
+const nullable = (check: Check): Check => (value, path) =>
+    value === null ? null : check(value, path);
+
+const arrayOf = (check: Check): Check => (value, path) => {
+    if (!Array.isArray(value)) return `${path}: expected array`;
+    for (let i = 0; i < value.length; i++) {
+        const error = check(value[i], `${path}[${i}]`);
+        if (error) return error;
+    }
+    return null;
+};
+
+const anyObject: Check = (value, path) =>
+    isObject(value) ? null : `${path}: expected object`;
+
+const recordOf = (check: Check): Check => (value, path) => {
+    if (!isObject(value)) return `${path}: expected object`;
+    for (const [key, item] of Object.entries(value)) {
+        const error = check(item, `${path}.${key}`);
+        if (error) return error;
+    }
+    return null;
+};
+
+const object = (shape: Shape): Check => (value, path) => {
+    if (!isObject(value)) return `${path}: expected object`;
+    for (const [key, check] of Object.entries(shape)) {
+        const error = check(value[key], `${path}.${key}`);
+        if (error) return error;
+    }
+    return null;
+};
+
+// ── Protocol types ───────────────────────────────────────────
+
+const ORIENTATIONS: readonly Orientation[] = ['0', '90', '180', '270'];
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const ANCHORS = [
+    'top-left', 'top', 'top-right',
+    'left', 'center', 'right',
+    'bottom-left', 'bottom', 'bottom-right',
+];
+
+const orientation = oneOf(ORIENTATIONS);
+
+const clockTime: Check = (value, path) =>
+    typeof value === 'string' && /^\d{1,2}:\d{2}$/.test(value) ? null : `${path}: expected "HH:mm"`;
+
+const timeWindow = object({ start: clockTime, end: clockTime });
+
+const videoSource = object({
+    id: optional(str),
+    url: nonEmptyStr,
+    name: optional(str),
+    type: optional(oneOf(['video', 'image', 'web'])),
+    duration: optional(nonNegative),
+    startAt: optional(nonNegative),
+    endAt: optional(nonNegative),
+    repeat: optional(nonNegative),
+    validFrom: optional(str),
+    validUntil: optional(str),
+    timeWindows: optional(arrayOf(timeWindow)),
+    refreshInterval: optional(nonNegative),
+    loadTimeout: optional(nonNegative),
+    size: optional(nonNegative),
+    sha256: optional(str),
+    renditions: optional(recordOf(object({ size: optional(nonNegative), sha256: optional(str) }))),
+});
+
+const playlist = arrayOf(videoSource);
+
+const layout = object({
+    id: optional(str),
+    zones: arrayOf(object({
+        id: nonEmptyStr,
+        x: num,
+        y: num,
+        width: num,
+        height: num,
+        playlist,
+        zIndex: optional(num),
+    })),
+});
+
+const widgetBase: Shape = {
+    id: nonEmptyStr,
+    anchor: optional(oneOf(ANCHORS)),
+    offsetX: optional(num),
+    offsetY: optional(num),
+    opacity: optional(num),
+};
+
+const WIDGETS: Record<string, Check> = {
+    clock: object({
+        ...widgetBase,
+        format: optional(oneOf(['12h', '24h'])),
+        showSeconds: optional(bool),
+        showDate: optional(bool),
+        color: optional(str),
+        backgroundColor: optional(str),
+        fontSize: optional(nonNegative),
+    }),
+    logo: object({ ...widgetBase, url: nonEmptyStr, width: optional(nonNegative), height: optional(nonNegative) }),
+    ticker: object({
+        ...widgetBase,
+        text: str,
+        speed: optional(nonNegative),
+        width: optional(nonNegative),
+        color: optional(str),
+        backgroundColor: optional(str),
+        fontSize: optional(nonNegative),
+    }),
+    qr: object({
+        ...widgetBase,
+        value: nonEmptyStr,
+        size: optional(nonNegative),
+        color: optional(str),
+        backgroundColor: optional(str),
+    }),
+};
+
+const widget: Check = (value, path) => {
+    if (!isObject(value)) return `${path}: expected object`;
+    const check = typeof value.type === 'string' ? WIDGETS[value.type] : undefined;
+    if (!check) return `${path}.type: expected one of ${Object.keys(WIDGETS).join(', ')}`;
+    return check(value, path);
+};
+
+const overlay = object({ widgets: arrayOf(widget) });
+
+const schedule = object({
+    enabled: bool,
+    wakeTime: optional(clockTime),
+    sleepTime: optional(clockTime),
+    weekly: optional((value, path) => {
+        if (!isObject(value)) return `${path}: expected object`;
+        for (const [day, windows] of Object.entries(value)) {
+            if (!WEEKDAYS.includes(day)) return `${path}.${day}: unknown weekday`;
+            const error = optional(arrayOf(timeWindow))(windows, `${path}.${day}`);
+            if (error) return error;
+        }
+        return null;
+    }),
+    exceptions: optional(arrayOf(object({
+        date: nonEmptyStr,
+        closed: optional(bool),
+        windows: optional(arrayOf(timeWindow)),
+    }))),
+});
+
+const alert = object({
+    id: nonEmptyStr,
+    title: optional(str),
+    message: optional(str),
+    media: optional(videoSource),
+    expiresAt: optional(num),
+    backgroundColor: optional(str),
+    textColor: optional(str),
+});
+
+const contentExtras: Shape = {
+    nextPlaylist: optional(playlist),
+    syncGroup: optional(nullable(str)),
+    startTime: optional(num),
+};
+
+// ── Messages ─────────────────────────────────────────────────
+
+// Payload check per message type; null = no payload expected
+const PAYLOADS: Record<WebSocketMessageType, Check | null> = {
+    register: object({ code: nonEmptyStr }),
+    paired: object({ id: nonEmptyStr, token: nonEmptyStr, code: optional(str), name: optional(str) }),
+    auth: object({
+        ...contentExtras,
+        // Tolerated like before validation: the device keeps working unnamed
+        id: optional(str),
+        code: optional(str),
+        name: optional(str),
+        settings: optional(nullable(anyObject)),
+        orientation: optional(nullable(orientation)),
+        schedule: optional(nullable(schedule)),
+        playlist: optional(playlist),
+        layout: optional(nullable(layout)),
+    }),
+    content: optional(object(contentExtras)),
+    heartbeat: optional(object(contentExtras)),
+    play: object({ url: nonEmptyStr }),
+    stop: null,
+    hibernate: null,
+    play_list: object({ ...contentExtras, playlist }),
+    sync_state: object({
+        ...contentExtras,
+        settings: optional(nullable(anyObject)),
+        orientation: optional(nullable(orientation)),
+        schedule: optional(nullable(schedule)),
+        playlist: optional(playlist),
+        layout: optional(nullable(layout)),
+    }),
+    schedule_update: object({ schedule: nullable(schedule) }),
+    layout_update: object({ ...contentExtras, layout: nullable(layout) }),
+    overlay_update: object({ overlay: nullable(overlay) }),
+    settings_update: object({ settings: nullable(anyObject) }),
+    alert: object({ alert }),
+    clear_alert: optional(object({ alertId: optional(str) })),
+    get_cache_inventory: null,
+    get_logs: optional(object({
+        lines: optional(nonNegative),
+        since: optional(num),
+        until: optional(num),
+        requestId: optional(str),
+    })),
+    unpair: null,
+    reset: null,
+};
+
+/**
+ * Check a raw `message` event. On success the message is safe to treat
+ * as WebSocketMessage.
+ */
+export function validateMessage(raw: unknown): ValidationResult {
+    if (!isObject(raw)) return { ok: false, type: null, error: 'message: expected object' };
+
+    const type = raw.type;
+    if (typeof type !== 'string') {
+        return { ok: false, type: null, error: 'type: expected string' };
+    }
+    if (!(type in PAYLOADS)) {
+        return { ok: false, type, error: `type: unknown message type ${JSON.stringify(type)}`, unknownType: true };
+    }
+
+    const requestIdError = optional(nonEmptyStr)(raw.requestId, 'requestId');
+    if (requestIdError) return { ok: false, type, error: requestIdError };
+
+    const message = normalizeOrientation(raw);
+    const check = PAYLOADS[type as WebSocketMessageType];
+    const error = check ? check(message.payload, 'payload') : null;
+    if (error) return { ok: false, type, error };
+
+    return { ok: true, message: message as unknown as WebSocketMessage };
+}
+
+const CONTENT_TYPES: readonly WebSocketMessageType[] = [
+    'auth', 'content', 'heartbeat', 'play_list', 'sync_state', 'layout_update',
+];
+
+/**
+ * Whether the message may carry ContentExtras (next playlist, sync group).
+ */
+export function isContentMessage(message: WebSocketMessage): message is ContentMessage {
+    return CONTENT_TYPES.includes(message.type);
+}
+
+// Servers send orientation as 90 as often as '90'
+function normalizeOrientation(raw: Record<string, unknown>): Record<string, unknown> {
+    const payload = raw.payload;
+    if (!isObject(payload) || typeof payload.orientation !== 'number') return raw;
+    return { ...raw, payload: { ...payload, orientation: String(payload.orientation) } };
+}
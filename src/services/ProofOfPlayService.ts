@@ -0,0 +1,143 @@
+/**
+ * ProofOfPlayService — Durable per-play records for advertisers
+ *
+ * PlayerScreen reports every showing of an item. Records are appended to a
+ * JSON-lines file first, so they survive restarts, power cuts and long
+ * offline periods, then uploaded over the socket in batches. A batch is only
+ * dropped from disk once the server acknowledges it; record ids let the
+ * server ignore a batch re-sent after a lost acknowledgement.
+ */
+
+import RNFS from 'react-native-fs';
+import { socketService } from './SocketService';
+import { logger, errorMessage } from './Logger';
+import { PlayRecord } from '../types';
+
+const RECORDS_FILE = `${RNFS.DocumentDirectoryPath}/proof_of_play.jsonl`;
+const BATCH_SIZE = 100;
+const FLUSH_INTERVAL_MS = 60000;
+// Oldest records are dropped past this (months offline on a busy playlist)
+const MAX_RECORDS = 50000;
+
+class ProofOfPlayService {
+    private records: PlayRecord[] = [];
+    private initialized = false;
+    // Don't rewrite the file before earlier sessions' records are read
+    private loaded = false;
+    private uploading = false;
+    private flushInterval: ReturnType<typeof setInterval> | null = null;
+    // Serialises appends and rewrites of the records file
+    private writeChain: Promise<void> = Promise.resolve();
+
+    /**
+     * Load records left from earlier sessions and start periodic uploads.
+     */
+    async init(): Promise<void> {
+        if (this.initialized) return;
+        this.initialized = true;
+
+        try {
+            if (await RNFS.exists(RECORDS_FILE)) {
+                const content = await RNFS.readFile(RECORDS_FILE, 'utf8');
+                const saved: PlayRecord[] = [];
+                for (const line of content.split('\n')) {
+                    if (!line.trim()) continue;
+                    try {
+                        saved.push(JSON.parse(line));
+                    } catch {
+                        // Torn last line from a power cut
+                    }
+                }
+                // Records reported while loading may already be in the file
+                const loaded = new Set(saved.map((r) => r.id));
+                this.records = [...saved, ...this.records.filter((r) => !loaded.has(r.id))];
+                logger.info('ProofOfPlay', 'Loaded pending records', { count: saved.length });
+            }
+        } catch (error) {
+            logger.error('ProofOfPlay', 'Failed to load records', { error: errorMessage(error) });
+        }
+
+        this.loaded = true;
+        this.flushInterval = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+    }
+
+    /**
+     * Store one play. Upload happens in the background.
+     */
+    record(play: Omit<PlayRecord, 'id'>): void {
+        const record: PlayRecord = { id: createRecordId(), ...play };
+        this.records.push(record);
+
+        if (this.records.length > MAX_RECORDS) {
+            const dropped = this.records.length - MAX_RECORDS;
+            this.records.splice(0, dropped);
+            logger.warn('ProofOfPlay', 'Buffer full, dropped oldest records', { dropped });
+            this.persistAll();
+        } else {
+            this.enqueueWrite(() => RNFS.appendFile(RECORDS_FILE, `${JSON.stringify(record)}\n`, 'utf8'));
+        }
+
+        if (this.records.length >= BATCH_SIZE) {
+            this.flush();
+        }
+    }
+
+    /**
+     * Upload pending records batch by batch while the server keeps
+     * acknowledging. Stops at the first failure; the rest stay on disk.
+     */
+    async flush(): Promise<void> {
+        if (!this.loaded || this.uploading || this.records.length === 0) return;
+        if (!socketService.isConnected) return;
+        this.uploading = true;
+
+        try {
+            while (this.records.length > 0) {
+                const batch = this.records.slice(0, BATCH_SIZE);
+                const acknowledged = await socketService.sendPlayRecords(batch);
+                if (!acknowledged) {
+                    logger.warn('ProofOfPlay', 'Batch not acknowledged, will retry');
+                    break;
+                }
+
+                // Records added during the upload sit after the batch
+                const sent = new Set(batch.map((r) => r.id));
+                this.records = this.records.filter((r) => !sent.has(r.id));
+                this.persistAll();
+            }
+        } finally {
+            this.uploading = false;
+        }
+    }
+
+    getPendingCount(): number {
+        return this.records.length;
+    }
+
+    stop(): void {
+        if (this.flushInterval) {
+            clearInterval(this.flushInterval);
+            this.flushInterval = null;
+        }
+    }
+
+    // Rewrite the file with what is still unconfirmed
+    private persistAll(): void {
+        this.enqueueWrite(() => {
+            const content = this.records.map((r) => `${JSON.stringify(r)}\n`).join('');
+            return RNFS.writeFile(RECORDS_FILE, content, 'utf8');
+        });
+    }
+
+    private enqueueWrite(write: () => Promise<void>): void {
+        this.writeChain = this.writeChain
+            .then(write)
+            .catch((error) => logger.error('ProofOfPlay', 'Failed to write records', { error: errorMessage(error) }));
+    }
+}
+
+function createRecordId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export const proofOfPlayService = new ProofOfPlayService();
@@ -0,0 +1,274 @@
+/**
+ * ScheduleService — Local wake/sleep schedule enforcement
+ *
+ * Evaluates the latest device Schedule against the server-corrected clock
+ * (ClockService), so screens still wake and sleep while the socket is
+ * down. The schedule itself is persisted with the player state (see
+ * SocketService.savePlayerState).
+ *
+ * A schedule is a set of on-windows per weekday (or one legacy daily
+ * wake/sleep pair), with dated exceptions that replace a day's windows.
+ * The same window logic decides when dayparted playlist items are valid.
+ */
+
+import { clockService } from './ClockService';
+import { logger } from './Logger';
+import { Schedule, TimeWindow, VideoSource, Weekday } from '../types';
+
+// Poll instead of arming one long timer: survives clock corrections
+// and timers delayed while the app was in the background.
+const CHECK_INTERVAL_MS = 30000;
+// How far ahead to look for the next wake/sleep transition
+const LOOKAHEAD_DAYS = 8;
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+type ScheduleChangeHandler = (awake: boolean) => void;
+
+class ScheduleService {
+    private schedule: Schedule | null = null;
+    private initialized = false;
+    private awake = true;
+    private changeHandler: ScheduleChangeHandler | null = null;
+    private checkInterval: ReturnType<typeof setInterval> | null = null;
+
+    /**
+     * Start periodic evaluation.
+     */
+    init(): void {
+        if (this.initialized) return;
+        this.initialized = true;
+
+        this.awake = this.isAwake();
+        this.checkInterval = setInterval(() => this.evaluate(), CHECK_INTERVAL_MS);
+    }
+
+    /**
+     * Register handler called whenever the schedule flips between awake and asleep.
+     */
+    onChange(handler: ScheduleChangeHandler) {
+        this.changeHandler = handler;
+    }
+
+    /**
+     * Replace the current schedule (from the server or restored state).
+     * Pass null to remove the schedule (always awake).
+     */
+    setSchedule(schedule: Schedule | null): void {
+        this.schedule = schedule;
+        this.evaluate();
+    }
+
+    getSchedule(): Schedule | null {
+        return this.schedule;
+    }
+
+    /**
+     * Whether the screen should be on at the given time.
+     * Handles overnight windows (e.g. 22:00–06:00) spilling into the next day.
+     */
+    isAwake(now: Date = clockService.date()): boolean {
+        const schedule = this.schedule;
+        if (!schedule || !schedule.enabled) return true;
+        // Nothing usable configured: never blank the screen by mistake
+        if (!schedule.weekly && !legacyWindow(schedule)) return true;
+
+        const t = now.getTime();
+        // Yesterday's overnight windows can still be open this morning
+        for (let offset = -1; offset <= 0; offset++) {
+            const day = addDays(startOfDay(now), offset);
+            for (const [start, end] of windowsForDay(schedule, day)) {
+                if (t >= start && t < end) return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Time of the next wake/sleep flip after `now`, or null if the
+     * state does not change within the lookahead period.
+     */
+    getNextTransition(now: Date = clockService.date()): Date | null {
+        const schedule = this.schedule;
+        if (!schedule || !schedule.enabled) return null;
+
+        const t = now.getTime();
+        const candidates: number[] = [];
+        for (let offset = -1; offset <= LOOKAHEAD_DAYS; offset++) {
+            const day = addDays(startOfDay(now), offset);
+            for (const [start, end] of windowsForDay(schedule, day)) {
+                if (start > t) candidates.push(start);
+                if (end > t) candidates.push(end);
+            }
+        }
+        candidates.sort((a, b) => a - b);
+
+        const awakeNow = this.isAwake(now);
+        for (const candidate of candidates) {
+            if (this.isAwake(new Date(candidate)) !== awakeNow) {
+                return new Date(candidate);
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Stop periodic evaluation.
+     */
+    stop(): void {
+        if (this.checkInterval) {
+            clearInterval(this.checkInterval);
+            this.checkInterval = null;
+        }
+        this.initialized = false;
+    }
+
+    private evaluate(): void {
+        const awake = this.isAwake();
+        if (awake === this.awake) return;
+
+        this.awake = awake;
+        logger.info('Schedule', awake ? 'Wake time reached' : 'Sleep time reached');
+        this.changeHandler?.(awake);
+    }
+}
+
+// ── Dayparting ───────────────────────────────────────────────
+
+/**
+ * Whether `now` falls inside any of the daily windows (including
+ * overnight windows that started yesterday).
+ */
+export function isWithinWindows(windows: TimeWindow[], now: Date = clockService.date()): boolean {
+    const t = now.getTime();
+    for (let offset = -1; offset <= 0; offset++) {
+        const day = addDays(startOfDay(now), offset);
+        for (const [start, end] of toIntervals(windows, day)) {
+            if (t >= start && t < end) return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Whether a playlist item may play now: inside validFrom/validUntil
+ * and one of its daily time windows. Unparseable bounds are ignored.
+ */
+export function isItemActive(item: VideoSource, now: Date = clockService.date()): boolean {
+    const t = now.getTime();
+
+    const from = item.validFrom ? parseDateBound(item.validFrom, false) : null;
+    if (from !== null && t < from) return false;
+
+    const until = item.validUntil ? parseDateBound(item.validUntil, true) : null;
+    if (until !== null && t >= until) return false;
+
+    if (item.timeWindows && item.timeWindows.length > 0) {
+        return isWithinWindows(item.timeWindows, now);
+    }
+    return true;
+}
+
+// ── Helpers ──────────────────────────────────────────────────
+
+/**
+ * Resolve the on-windows that start on `day` (local midnight) as
+ * absolute [start, end) timestamps. Exceptions replace the weekly hours.
+ */
+function windowsForDay(schedule: Schedule, day: Date): Array<[number, number]> {
+    let windows: TimeWindow[];
+
+    const exception = schedule.exceptions?.find((e) => e.date === dateKey(day));
+    if (exception) {
+        windows = exception.closed ? [] : exception.windows || [];
+    } else if (schedule.weekly) {
+        windows = schedule.weekly[WEEKDAYS[day.getDay()]] || [];
+    } else {
+        const legacy = legacyWindow(schedule);
+        windows = legacy ? [legacy] : [];
+    }
+
+    return toIntervals(windows, day);
+}
+
+/**
+ * Windows starting on `day` (local midnight) as absolute [start, end) timestamps.
+ */
+function toIntervals(windows: TimeWindow[], day: Date): Array<[number, number]> {
+    const result: Array<[number, number]> = [];
+    for (const window of windows) {
+        const start = parseTime(window.start);
+        const end = parseTime(window.end);
+        if (start === null || end === null) continue;
+
+        // End at or before start means the window closes the next day
+        const endDay = end <= start ? addDays(day, 1) : day;
+        result.push([atMinutes(day, start), atMinutes(endDay, end)]);
+    }
+    return result;
+}
+
+/**
+ * Parse a validity bound. A bare "YYYY-MM-DD" is a whole local day:
+ * it starts at local midnight, and as an end bound includes that day.
+ */
+function parseDateBound(value: string, isEnd: boolean): number | null {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim());
+    if (match) {
+        const day = new Date(
+            parseInt(match[1], 10),
+            parseInt(match[2], 10) - 1,
+            parseInt(match[3], 10),
+        );
+        return (isEnd ? addDays(day, 1) : day).getTime();
+    }
+
+    const t = Date.parse(value);
+    return isNaN(t) ? null : t;
+}
+
+function legacyWindow(schedule: Schedule): TimeWindow | null {
+    const { wakeTime, sleepTime } = schedule;
+    if (parseTime(wakeTime) === null || parseTime(sleepTime) === null) return null;
+    return { start: wakeTime as string, end: sleepTime as string };
+}
+
+function startOfDay(date: Date): Date {
+    const day = new Date(date.getTime());
+    day.setHours(0, 0, 0, 0);
+    return day;
+}
+
+function addDays(day: Date, days: number): Date {
+    // setDate keeps local midnight correct across DST changes
+    const result = new Date(day.getTime());
+    result.setDate(result.getDate() + days);
+    return result;
+}
+
+function atMinutes(day: Date, minutes: number): number {
+    const result = new Date(day.getTime());
+    result.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+    return result.getTime();
+}
+
+function dateKey(day: Date): string {
+    const month = String(day.getMonth() + 1).padStart(2, '0');
+    const date = String(day.getDate()).padStart(2, '0');
+    return `${day.getFullYear()}-${month}-${date}`;
+}
+
+/**
+ * Parse "HH:mm" into minutes since midnight. Returns null if invalid.
+ */
+function parseTime(value: string | undefined): number | null {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(value?.trim() || '');
+    if (!match) return null;
+
+    const hours = parseInt(match[1], 10);
+    const minutes = parseInt(match[2], 10);
+    if (hours > 23 || minutes > 59) return null;
+
+    return hours * 60 + minutes;
+}
+
+export const scheduleService = new ScheduleService();
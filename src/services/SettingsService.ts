@@ -0,0 +1,230 @@
+/**
+ * SettingsService — Player tuning pushed by the server
+ *
+ * Session refresh, watchdog, video buffering, resize mode, heartbeat and
+ * reconnect timing differ between hardware models, so the server can set
+ * them per device (`settings_update`, or `settings` in `auth`/`sync_state`).
+ * Every push is checked against safe bounds: out-of-range numbers are
+ * clamped, wrong types and unknown keys fall back to the default, and the
+ * adjustments are reported. The result is persisted (AsyncStorage + backup
+ * file) and applied live through `onChange` listeners.
+ *
+ * Without a push the defaults below apply; they are the values the player
+ * shipped with before settings were configurable.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import RNFS from 'react-native-fs';
+import { logger, errorMessage } from './Logger';
+import { BufferSettings, DeviceSettings, ResizeMode } from '../types';
+
+const STORAGE_KEY = 'device_settings';
+const BACKUP_FILE = `${RNFS.DocumentDirectoryPath}/device_settings.json`;
+
+export const DEFAULT_SETTINGS: DeviceSettings = {
+    sessionRefreshMs: 2 * 60 * 60 * 1000,
+    sessionRefreshLoops: 20,
+    watchdogStuckMs: 30000,
+    buffer: {
+        minBufferMs: 5000,
+        maxBufferMs: 50000,
+        bufferForPlaybackMs: 2500,
+        bufferForPlaybackAfterRebufferMs: 5000,
+    },
+    resizeMode: 'contain',
+    heartbeatIntervalMs: 60000,
+    reconnectDelayMs: 3000,
+};
+
+interface Bounds {
+    min: number;
+    max: number;
+    // 0 is accepted below `min` (feature off)
+    zeroDisables?: boolean;
+}
+
+type NumericSetting = 'sessionRefreshMs' | 'sessionRefreshLoops' | 'watchdogStuckMs' | 'heartbeatIntervalMs' | 'reconnectDelayMs';
+
+const BOUNDS: Record<NumericSetting, Bounds> = {
+    sessionRefreshMs: { min: 10 * 60 * 1000, max: 24 * 60 * 60 * 1000, zeroDisables: true },
+    sessionRefreshLoops: { min: 1, max: 10000, zeroDisables: true },
+    // Below ~10s slow streams and long buffering would trip it
+    watchdogStuckMs: { min: 10000, max: 10 * 60 * 1000 },
+    heartbeatIntervalMs: { min: 15000, max: 10 * 60 * 1000 },
+    reconnectDelayMs: { min: 1000, max: 60000 },
+};
+
+const BUFFER_BOUNDS: Record<keyof BufferSettings, Bounds> = {
+    minBufferMs: { min: 1000, max: 120000 },
+    maxBufferMs: { min: 2000, max: 600000 },
+    bufferForPlaybackMs: { min: 500, max: 60000 },
+    bufferForPlaybackAfterRebufferMs: { min: 500, max: 60000 },
+};
+
+const RESIZE_MODES: readonly ResizeMode[] = ['contain', 'cover', 'stretch'];
+
+type SettingsListener = (settings: DeviceSettings) => void;
+
+export interface SettingsResult {
+    settings: DeviceSettings;
+    // Fields that were clamped, ignored or reset to the default
+    warnings: string[];
+}
+
+class SettingsService {
+    private settings: DeviceSettings = DEFAULT_SETTINGS;
+    private listeners = new Set<SettingsListener>();
+    private initialized = false;
+
+    /**
+     * Load the last applied settings (AsyncStorage, then backup file).
+     */
+    async init(): Promise<void> {
+        if (this.initialized) return;
+        this.initialized = true;
+
+        try {
+            let json = await AsyncStorage.getItem(STORAGE_KEY);
+            if (!json && (await RNFS.exists(BACKUP_FILE))) {
+                json = await RNFS.readFile(BACKUP_FILE, 'utf8');
+                logger.info('Settings', 'Loaded settings from Backup File');
+            }
+            if (json) {
+                // Re-checked: bounds may have changed since they were saved
+                const { settings } = sanitizeSettings(JSON.parse(json));
+                this.update(settings);
+            }
+        } catch (error) {
+            logger.error('Settings', 'Failed to load settings', { error: errorMessage(error) });
+        }
+    }
+
+    get(): DeviceSettings {
+        return this.settings;
+    }
+
+    /**
+     * Subscribe to changes. Returns a function that unsubscribes.
+     */
+    onChange(listener: SettingsListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Apply settings from the server (null = defaults) and persist them.
+     */
+    async apply(raw: unknown): Promise<SettingsResult> {
+        const result = raw === null ? { settings: DEFAULT_SETTINGS, warnings: [] } : sanitizeSettings(raw);
+        if (result.warnings.length > 0) {
+            logger.warn('Settings', 'Adjusted invalid settings', { warnings: result.warnings });
+        }
+
+        if (this.update(result.settings)) {
+            logger.info('Settings', 'Applied settings', { settings: result.settings });
+            await this.save(result.settings);
+        }
+        return result;
+    }
+
+    // Returns whether anything changed
+    private update(settings: DeviceSettings): boolean {
+        if (JSON.stringify(settings) === JSON.stringify(this.settings)) return false;
+        this.settings = settings;
+        this.listeners.forEach((listener) => listener(settings));
+        return true;
+    }
+
+    private async save(settings: DeviceSettings): Promise<void> {
+        const json = JSON.stringify(settings);
+        try {
+            await AsyncStorage.setItem(STORAGE_KEY, json);
+        } catch (error) {
+            logger.error('Settings', 'Settings save failed', { error: errorMessage(error) });
+        }
+
+        try {
+            await RNFS.writeFile(BACKUP_FILE, json, 'utf8');
+        } catch (error) {
+            logger.error('Settings', 'Settings backup save failed', { error: errorMessage(error) });
+        }
+    }
+}
+
+/**
+ * Defaults overlaid with the valid parts of `raw`, clamped to BOUNDS.
+ */
+export function sanitizeSettings(raw: unknown): SettingsResult {
+    const warnings: string[] = [];
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        return { settings: DEFAULT_SETTINGS, warnings: ['settings: expected object, using defaults'] };
+    }
+    const input = raw as Record<string, unknown>;
+
+    for (const key of Object.keys(input)) {
+        if (!(key in DEFAULT_SETTINGS)) warnings.push(`${key}: unknown setting, ignored`);
+    }
+
+    const settings: DeviceSettings = { ...DEFAULT_SETTINGS, buffer: { ...DEFAULT_SETTINGS.buffer } };
+
+    for (const key of Object.keys(BOUNDS) as NumericSetting[]) {
+        settings[key] = checkNumber(input[key], key, DEFAULT_SETTINGS[key], BOUNDS[key], warnings);
+    }
+
+    if (input.resizeMode !== undefined) {
+        if (RESIZE_MODES.includes(input.resizeMode as ResizeMode)) {
+            settings.resizeMode = input.resizeMode as ResizeMode;
+        } else {
+            warnings.push(`resizeMode: expected one of ${RESIZE_MODES.join(', ')}, using ${DEFAULT_SETTINGS.resizeMode}`);
+        }
+    }
+
+    if (input.buffer !== undefined) {
+        if (typeof input.buffer === 'object' && input.buffer !== null && !Array.isArray(input.buffer)) {
+            const buffer = input.buffer as Record<string, unknown>;
+            for (const key of Object.keys(BUFFER_BOUNDS) as (keyof BufferSettings)[]) {
+                settings.buffer[key] = checkNumber(
+                    buffer[key], `buffer.${key}`, DEFAULT_SETTINGS.buffer[key], BUFFER_BOUNDS[key], warnings,
+                );
+            }
+        } else {
+            warnings.push('buffer: expected object, using defaults');
+        }
+    }
+
+    // ExoPlayer rejects a buffer config where these don't hold
+    const { buffer } = settings;
+    if (buffer.maxBufferMs < buffer.minBufferMs) {
+        warnings.push('buffer.maxBufferMs: below minBufferMs, raised to it');
+        buffer.maxBufferMs = buffer.minBufferMs;
+    }
+    if (buffer.bufferForPlaybackMs > buffer.minBufferMs) {
+        warnings.push('buffer.bufferForPlaybackMs: above minBufferMs, lowered to it');
+        buffer.bufferForPlaybackMs = buffer.minBufferMs;
+    }
+    if (buffer.bufferForPlaybackAfterRebufferMs > buffer.minBufferMs) {
+        warnings.push('buffer.bufferForPlaybackAfterRebufferMs: above minBufferMs, lowered to it');
+        buffer.bufferForPlaybackAfterRebufferMs = buffer.minBufferMs;
+    }
+
+    return { settings, warnings };
+}
+
+function checkNumber(value: unknown, name: string, fallback: number, bounds: Bounds, warnings: string[]): number {
+    if (value === undefined) return fallback;
+    if (typeof value !== 'number' || !isFinite(value)) {
+        warnings.push(`${name}: expected number, using ${fallback}`);
+        return fallback;
+    }
+    if (value === 0 && bounds.zeroDisables) return 0;
+
+    const clamped = Math.min(bounds.max, Math.max(bounds.min, Math.round(value)));
+    if (clamped !== Math.round(value)) {
+        warnings.push(`${name}: ${value} outside ${bounds.min}–${bounds.max}, using ${clamped}`);
+    }
+    return clamped;
+}
+
+export const settingsService = new SettingsService();
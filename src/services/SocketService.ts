@@ -3,29 +3,78 @@
  *
  * Ported from digital-sign/app/player/page.tsx
  * Handles: connection, auth, heartbeat, reconnection, message dispatch
+ * (validated by MessageValidator),
+ * and the time_ping/time_pong exchange that feeds ClockService
  */
 
 import { io, Socket } from 'socket.io-client';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import RNFS from 'react-native-fs';
 import { SOCKET_URL } from '@env';
-import { WebSocketMessage, DeviceConfig } from '../types';
+import { clockService } from './ClockService';
+import { logger, errorMessage, LogEntry } from './Logger';
+import { statusService } from './StatusService';
+import { validateMessage } from './MessageValidator';
+import { settingsService } from './SettingsService';
+import {
+    WebSocketMessage,
+    DeviceConfig,
+    PlayerState,
+    CacheInventory,
+    PlayRecord,
+    LogUpload,
+    CommandAck,
+    CommandResult,
+} from '../types';
 
 const STORAGE_KEY = 'client_data';
 const BACKUP_FILE = `${RNFS.DocumentDirectoryPath}/device_config.json`;
-
-type MessageHandler = (message: WebSocketMessage) => void;
+const STATE_STORAGE_KEY = 'player_state';
+const STATE_BACKUP_FILE = `${RNFS.DocumentDirectoryPath}/player_state.json`;
+// Clock sync: a quick burst on connect, then one ping every few minutes
+const TIME_SYNC_BURST = 5;
+const TIME_SYNC_BURST_SPACING_MS = 1000;
+const TIME_SYNC_INTERVAL_MS = 5 * 60 * 1000;
+// Proof-of-play batches unacknowledged after this are re-sent later
+const PLAY_RECORDS_ACK_TIMEOUT_MS = 15000;
+// Command ids remembered to recognise retransmissions
+const MAX_REMEMBERED_COMMANDS = 200;
+
+// Resolves once the command is applied; its result is acked when the message has a requestId
+type MessageHandler = (message: WebSocketMessage) => Promise<CommandResult | void> | void;
 type ConnectionHandler = (connected: boolean) => void;
 
 class SocketService {
     private socket: Socket | null = null;
     private messageHandler: MessageHandler | null = null;
+    // Recent command ids → their ack (null while still being applied)
+    private commands = new Map<string, CommandAck | null>();
     private connectionHandler: ConnectionHandler | null = null;
     private heartbeatInterval: ReturnType<typeof setInterval> | null = null;
     private heartbeatTimeout: ReturnType<typeof setTimeout> | null = null;
     private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+    private timeSyncInterval: ReturnType<typeof setInterval> | null = null;
+    private timeSyncBurstTimers: ReturnType<typeof setTimeout>[] = [];
+    // Connections after the first, however they came about
+    private reconnectCount = 0;
+    private hasConnected = false;
     public _unpairRetryCount: number = 0;
 
+    constructor() {
+        statusService.register('socket', () => ({
+            connected: !!this.socket?.connected,
+            // 'websocket' or 'polling' (long-polling fallback)
+            transport: this.socket?.io.engine?.transport?.name ?? null,
+            reconnects: this.reconnectCount,
+        }));
+
+        settingsService.onChange((settings) => {
+            this.socket?.io.reconnectionDelay(settings.reconnectDelayMs);
+            // Restart a running heartbeat on the new interval
+            if (this.heartbeatTimeout || this.heartbeatInterval) this.startHeartbeat();
+        });
+    }
+
     /**
      * Register handlers before connecting.
      */
@@ -53,53 +102,55 @@ class SocketService {
             const savedJson = await AsyncStorage.getItem(STORAGE_KEY);
             if (savedJson) {
                 savedData = JSON.parse(savedJson);
-                console.log('[Persistence] Loaded credentials from AsyncStorage:', savedData);
+                logger.info('Persistence', 'Loaded credentials from AsyncStorage', { deviceId: savedData.id });
             } else {
                 // Try backup file
                 const exists = await RNFS.exists(BACKUP_FILE);
                 if (exists) {
                     const fileContent = await RNFS.readFile(BACKUP_FILE, 'utf8');
                     savedData = JSON.parse(fileContent);
-                    console.log('[Persistence] Loaded credentials from Backup File:', savedData);
+                    logger.info('Persistence', 'Loaded credentials from Backup File', { deviceId: savedData.id });
                     // Restore to main storage
                     await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(savedData));
                 } else {
-                    console.log('[Persistence] No credentials found anywhere. Starting pairing.');
+                    logger.info('Persistence', 'No credentials found anywhere. Starting pairing.');
                 }
             }
         } catch (error) {
-            console.error('[Persistence] Failed to load credentials:', error);
+            logger.error('Persistence', 'Failed to load credentials', { error: errorMessage(error) });
         }
 
         const query: Record<string, string> = { type: 'client-player' };
         if (savedData.token) {
             query.token = savedData.token;
             if (savedData.id) query.deviceId = savedData.id;
-            console.log('[Persistence] Found token, attempting auth');
+            logger.info('Persistence', 'Found token, attempting auth');
         }
 
         const socket = io(socketUrl, {
             query,
             transports: ['websocket', 'polling'],
             reconnectionAttempts: Infinity,
-            reconnectionDelay: 3000,
+            reconnectionDelay: settingsService.get().reconnectDelayMs,
         });
 
         this.socket = socket;
         // ── Reconnection Events ───────────────────────────────────────
         socket.io.on('reconnect_attempt', (attempt) => {
-            console.log(`[Socket] Reconnection attempt #${attempt}`);
+            logger.debug('Socket', 'Reconnection attempt', { attempt });
         });
         socket.io.on('reconnect', (attempt) => {
-            console.log(`[Socket] Reconnected after ${attempt} attempts`);
+            logger.info('Socket', 'Reconnected', { attempts: attempt });
         });
 
         // ── Connection Events ────────────────────────────────────────
 
-        console.log('[Socket] Connecting to:', socketUrl);
+        logger.info('Socket', 'Connecting', { url: socketUrl });
 
         socket.on('connect', () => {
-            console.log('[Socket] Connected');
+            logger.info('Socket', 'Connected');
+            if (this.hasConnected) this.reconnectCount += 1;
+            this.hasConnected = true;
             this.connectionHandler?.(true);
             if (this.reconnectTimeout) {
                 clearTimeout(this.reconnectTimeout);
@@ -107,15 +158,17 @@ class SocketService {
             }
             // Request current state from server on (re)connect
             socket.emit('get_playback_state');
+            this.startTimeSync();
         });
 
         socket.on('connect_error', (error) => {
-            console.error('[Socket] Connection error:', error?.message || error);
+            logger.warn('Socket', 'Connection error', { error: errorMessage(error) });
         });
 
         socket.on('disconnect', (reason) => {
-            console.log('[Socket] Disconnected:', reason);
+            logger.info('Socket', 'Disconnected', { reason });
             this.connectionHandler?.(false);
+            this.stopTimeSync();
 
             // Auto-reconnect for network issues
             if (
@@ -128,25 +181,124 @@ class SocketService {
                     if (this.socket && !this.socket.connected) {
                         this.socket.connect();
                     }
-                }, 3000);
+                }, settingsService.get().reconnectDelayMs);
             }
         });
 
         // ── Message Handler ─────────────────────────────────────────
 
-        socket.on('message', (message: WebSocketMessage) => {
-            this.messageHandler?.(message);
+        // Only validated messages reach the app; the rest are reported back
+        socket.on('message', (raw: unknown) => {
+            const result = validateMessage(raw);
+            if (!result.ok) {
+                if (result.unknownType) {
+                    // Newer server than this player: not a fault, but the server
+                    // should see the protocol mismatch
+                    logger.info('Socket', 'Ignoring unknown message type', { type: result.type });
+                    socket.emit('message_rejected', { type: result.type, error: result.error, unknownType: true });
+                } else {
+                    statusService.increment('rejectedMessages');
+                    logger.error('Socket', 'Rejected invalid message', { type: result.type, error: result.error });
+                    socket.emit('message_rejected', { type: result.type, error: result.error });
+                }
+                const requestId = (raw as { requestId?: unknown } | null)?.requestId;
+                if (typeof requestId === 'string' && requestId) {
+                    this.sendAck({ requestId, type: result.type, success: false, error: result.error, at: clockService.now() });
+                }
+                return;
+            }
+            this.dispatch(result.message);
+        });
+
+        // ── Clock Sync ──────────────────────────────────────────────
+
+        socket.on('time_pong', (data: { clientTime?: number; serverTime?: number }) => {
+            if (typeof data?.clientTime !== 'number' || typeof data?.serverTime !== 'number') return;
+            clockService.addSample(data.clientTime, data.serverTime, Date.now());
         });
     }
 
     /**
-     * Start heartbeat emission every 60 seconds, aligned to the minute.
-     * Sends RAM usage and requests state sync.
+     * Estimate the server clock offset: the server echoes `clientTime`
+     * back with its own `serverTime` in a `time_pong`.
+     */
+    private startTimeSync(): void {
+        this.stopTimeSync();
+
+        for (let i = 0; i < TIME_SYNC_BURST; i++) {
+            this.timeSyncBurstTimers.push(
+                setTimeout(() => this.sendTimePing(), i * TIME_SYNC_BURST_SPACING_MS),
+            );
+        }
+        this.timeSyncInterval = setInterval(() => this.sendTimePing(), TIME_SYNC_INTERVAL_MS);
+    }
+
+    private sendTimePing(): void {
+        if (!this.socket?.connected) return;
+        this.socket.emit('time_ping', { clientTime: Date.now() });
+    }
+
+    private stopTimeSync(): void {
+        this.timeSyncBurstTimers.forEach(clearTimeout);
+        this.timeSyncBurstTimers = [];
+        if (this.timeSyncInterval) {
+            clearInterval(this.timeSyncInterval);
+            this.timeSyncInterval = null;
+        }
+    }
+
+    /**
+     * Hand a valid message to the app. Messages with a requestId are applied
+     * once: a retransmission only repeats the ack (the first may have been lost).
+     */
+    private async dispatch(message: WebSocketMessage): Promise<void> {
+        const { requestId } = message;
+        if (requestId) {
+            if (this.commands.has(requestId)) {
+                logger.debug('Socket', 'Ignoring retransmitted command', { requestId, type: message.type });
+                const ack = this.commands.get(requestId);
+                if (ack) this.sendAck(ack);
+                return;
+            }
+            this.rememberCommand(requestId, null);
+        }
+
+        let result: CommandResult;
+        try {
+            result = (await this.messageHandler?.(message)) || { success: true };
+        } catch (error) {
+            result = { success: false, error: errorMessage(error) };
+        }
+
+        if (!requestId) return;
+        const ack: CommandAck = { requestId, type: message.type, ...result, at: clockService.now() };
+        this.rememberCommand(requestId, ack);
+        this.sendAck(ack);
+    }
+
+    private rememberCommand(requestId: string, ack: CommandAck | null): void {
+        this.commands.delete(requestId);
+        this.commands.set(requestId, ack);
+        // Map keeps insertion order: the first key is the oldest
+        while (this.commands.size > MAX_REMEMBERED_COMMANDS) {
+            this.commands.delete(this.commands.keys().next().value as string);
+        }
+    }
+
+    private sendAck(ack: CommandAck): void {
+        if (!this.socket?.connected) return;
+        this.socket.emit('command_ack', ack);
+    }
+
+    /**
+     * Start heartbeat emission every `heartbeatIntervalMs` (60s by default),
+     * aligned to the server clock (whole minutes for the default).
+     * Sends RAM usage plus the device status (StatusService) and requests state sync.
      */
     startHeartbeat(): void {
         this.stopHeartbeat();
 
-        const sendBeat = () => {
+        const sendBeat = async () => {
             if (!this.socket?.connected) return;
 
             // Get memory info (approximate for RN)
@@ -161,22 +313,26 @@ class SocketService {
                 }
             } catch { }
 
-            this.socket.emit('heartbeat', { ram, ramTotal });
+            const status = await statusService.collect();
+            // Disconnected while collecting
+            if (!this.socket?.connected) return;
+
+            this.socket.emit('heartbeat', { ...status, ram, ramTotal });
             this.socket.emit('get_playback_state');
         };
 
         // Send immediately
         sendBeat();
 
-        // Align to next minute boundary, then every 60s
-        const now = new Date();
-        const msUntilNextMinute =
-            (60 - now.getSeconds()) * 1000 - now.getMilliseconds();
+        // Align to the next interval boundary of the server clock, then repeat
+        const intervalMs = settingsService.get().heartbeatIntervalMs;
+        const msUntilNextBeat = intervalMs - (clockService.now() % intervalMs);
 
         this.heartbeatTimeout = setTimeout(() => {
+            this.heartbeatTimeout = null;
             sendBeat();
-            this.heartbeatInterval = setInterval(sendBeat, 60000);
-        }, msUntilNextMinute);
+            this.heartbeatInterval = setInterval(sendBeat, intervalMs);
+        }, msUntilNextBeat);
     }
 
     private stopHeartbeat(): void {
@@ -190,24 +346,67 @@ class SocketService {
         }
     }
 
+    /**
+     * Report cache inventory / download progress to the dashboard.
+     */
+    sendCacheInventory(inventory: CacheInventory): void {
+        if (!this.socket?.connected) return;
+        this.socket.emit('cache_inventory', inventory);
+    }
+
+    /**
+     * Answer a `get_logs` request with lines from the on-device log file.
+     */
+    sendLogFile(upload: LogUpload): void {
+        if (!this.socket?.connected) return;
+        this.socket.emit('log_file', upload);
+    }
+
+    /**
+     * Upload a batch of proof-of-play records. Resolves true only once the
+     * server acknowledged it with `{ ok: true }`.
+     */
+    sendPlayRecords(records: PlayRecord[]): Promise<boolean> {
+        const socket = this.socket;
+        if (!socket?.connected) return Promise.resolve(false);
+
+        return new Promise((resolve) => {
+            socket
+                .timeout(PLAY_RECORDS_ACK_TIMEOUT_MS)
+                .emit('proof_of_play', { records }, (err: Error | null, response?: { ok?: boolean }) => {
+                    resolve(!err && response?.ok === true);
+                });
+        });
+    }
+
+    /**
+     * Forward a batch of log entries to the server (LogTransports.SocketTransport).
+     * False while disconnected, so the transport keeps them buffered.
+     */
+    sendLogs(entries: LogEntry[]): Promise<boolean> {
+        if (!this.socket?.connected) return Promise.resolve(false);
+        this.socket.emit('log', { entries });
+        return Promise.resolve(true);
+    }
+
     /**
      * Save device credentials to AsyncStorage after pairing/auth.
      */
     async saveCredentials(config: Partial<DeviceConfig>): Promise<void> {
-        console.log('[Persistence] Saving credentials:', config);
+        logger.info('Persistence', 'Saving credentials', { deviceId: config.id });
         const json = JSON.stringify(config);
         try {
             await AsyncStorage.setItem(STORAGE_KEY, json);
-            console.log('[Persistence] AsyncStorage save successful');
+            logger.debug('Persistence', 'AsyncStorage save successful');
         } catch (error: any) {
-            console.error('[Persistence] AsyncStorage save failed:', error);
+            logger.error('Persistence', 'AsyncStorage save failed', { error: errorMessage(error) });
         }
 
         try {
             await RNFS.writeFile(BACKUP_FILE, json, 'utf8');
-            console.log('[Persistence] Backup file save successful');
+            logger.debug('Persistence', 'Backup file save successful');
         } catch (error: any) {
-            console.error('[Persistence] Backup file save failed:', error);
+            logger.error('Persistence', 'Backup file save failed', { error: errorMessage(error) });
         }
     }
 
@@ -229,15 +428,54 @@ class SocketService {
      * Clear stored credentials (unpair).
      */
     async clearCredentials(): Promise<void> {
-        console.log('[Persistence] Clearing credentials');
+        logger.info('Persistence', 'Clearing credentials');
         await AsyncStorage.removeItem(STORAGE_KEY);
         try {
             if (await RNFS.exists(BACKUP_FILE)) {
                 await RNFS.unlink(BACKUP_FILE);
             }
         } catch (e) {
-            console.error('[Persistence] Failed to clear backup:', e);
+            logger.error('Persistence', 'Failed to clear backup', { error: errorMessage(e) });
+        }
+    }
+
+    /**
+     * Save last accepted playlist/orientation/schedule next to the credentials,
+     * so the player can resume from cache after a reboot without network.
+     */
+    async savePlayerState(state: PlayerState): Promise<void> {
+        const json = JSON.stringify(state);
+        try {
+            await AsyncStorage.setItem(STATE_STORAGE_KEY, json);
+        } catch (error: any) {
+            logger.error('Persistence', 'Player state save failed', { error: errorMessage(error) });
+        }
+
+        try {
+            await RNFS.writeFile(STATE_BACKUP_FILE, json, 'utf8');
+        } catch (error: any) {
+            logger.error('Persistence', 'Player state backup save failed', { error: errorMessage(error) });
+        }
+    }
+
+    /**
+     * Load the last saved player state (AsyncStorage, then backup file).
+     */
+    async loadPlayerState(): Promise<PlayerState | null> {
+        try {
+            const json = await AsyncStorage.getItem(STATE_STORAGE_KEY);
+            if (json) return JSON.parse(json);
+
+            if (await RNFS.exists(STATE_BACKUP_FILE)) {
+                const fileContent = await RNFS.readFile(STATE_BACKUP_FILE, 'utf8');
+                logger.info('Persistence', 'Loaded player state from Backup File');
+                await AsyncStorage.setItem(STATE_STORAGE_KEY, fileContent);
+                return JSON.parse(fileContent);
+            }
+        } catch (error) {
+            logger.error('Persistence', 'Failed to load player state', { error: errorMessage(error) });
         }
+        return null;
     }
 
     /**
@@ -245,6 +483,7 @@ class SocketService {
      */
     disconnect(): void {
         this.stopHeartbeat();
+        this.stopTimeSync();
         if (this.reconnectTimeout) {
             clearTimeout(this.reconnectTimeout);
             this.reconnectTimeout = null;
@@ -0,0 +1,77 @@
+/**
+ * StatusService — Device status reported in the heartbeat
+ *
+ * Subsystems register a status source (App: app state and content,
+ * PlayerScreen: playback per zone, CacheService: storage, SocketService:
+ * connection) and bump counters for events worth tracking (watchdog
+ * recoveries, playback errors). The heartbeat sends `collect()`.
+ *
+ * Source fields are merged into one flat object; nested objects under the
+ * same key are combined, so each zone's player can add its own entry to
+ * `zones`.
+ */
+
+import { version as APP_VERSION } from '../../package.json';
+
+export type StatusFields = Record<string, unknown>;
+export type StatusSource = () => StatusFields | Promise<StatusFields>;
+
+class StatusService {
+    private sources = new Map<string, StatusSource>();
+    private counters: Record<string, number> = {};
+    private readonly bootedAt = Date.now();
+
+    /**
+     * Add (or replace) a named source. Returns a function that removes it.
+     */
+    register(name: string, source: StatusSource): () => void {
+        this.sources.set(name, source);
+        return () => {
+            if (this.sources.get(name) === source) this.sources.delete(name);
+        };
+    }
+
+    /**
+     * Count an event since boot.
+     */
+    increment(counter: string, by = 1): void {
+        this.counters[counter] = (this.counters[counter] || 0) + by;
+    }
+
+    /**
+     * Current status from every source. A failing source is left out.
+     */
+    async collect(): Promise<StatusFields> {
+        const status: StatusFields = {
+            appVersion: APP_VERSION,
+            uptimeMs: Date.now() - this.bootedAt,
+            deviceTime: Date.now(),
+            counters: { ...this.counters },
+        };
+
+        const results = await Promise.all(
+            [...this.sources.values()].map(async (source) => {
+                try {
+                    return await source();
+                } catch {
+                    return {};
+                }
+            }),
+        );
+        for (const fields of results) {
+            for (const [key, value] of Object.entries(fields)) {
+                const existing = status[key];
+                status[key] = isPlainObject(existing) && isPlainObject(value)
+                    ? { ...existing, ...value }
+                    : value;
+            }
+        }
+        return status;
+    }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export const statusService = new StatusService();
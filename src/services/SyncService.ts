@@ -0,0 +1,112 @@
+/**
+ * SyncService — Shared playback timeline for video walls
+ *
+ * Players in the same sync group share a reference start time from the
+ * server, measured against the server clock (ClockService). Every player
+ * maps "now" onto the same timeline (item index and offset into it), so
+ * they start together and can measure their own drift.
+ * Correction (seek or rate nudging) is done by PlayerScreen.
+ *
+ * The timeline needs each item's length: images/pages have a display
+ * duration, videos use their `duration`/trim points or, failing that, the
+ * file duration learned the first time it loads.
+ */
+
+import { clockService } from './ClockService';
+import { logger } from './Logger';
+import { SyncGroup } from '../types';
+
+/** Where the timeline says playback should be. */
+export interface TimelinePosition {
+    index: number;
+    // Offset into the item's slot (all of its repeats)
+    offsetMs: number;
+    // Time left until the slot ends
+    remainingMs: number;
+    // Distance to the nearest slot boundary
+    boundaryMs: number;
+    // False until the group's start time is reached (hold on the first frame)
+    started: boolean;
+}
+
+class SyncService {
+    private group: SyncGroup | null = null;
+    // File durations in seconds, keyed by item URL
+    private durations = new Map<string, number>();
+
+    /**
+     * Join a sync group (from the server or restored state), or leave with null.
+     */
+    setGroup(group: SyncGroup | null): void {
+        if (group?.id !== this.group?.id || group?.startTime !== this.group?.startTime) {
+            if (group) {
+                logger.info('Sync', 'Joined sync group', { group: group.id, startTime: new Date(group.startTime).toISOString() });
+            } else {
+                logger.info('Sync', 'Left sync group');
+            }
+        }
+        this.group = group;
+    }
+
+    getGroup(): SyncGroup | null {
+        return this.group;
+    }
+
+    /**
+     * Remember a video's file duration (from the player's onLoad).
+     */
+    learnDuration(url: string, seconds: number): void {
+        if (seconds > 0 && isFinite(seconds)) {
+            this.durations.set(url, seconds);
+        }
+    }
+
+    getDuration(url: string): number | undefined {
+        return this.durations.get(url);
+    }
+
+    /**
+     * Locate `now` on the group timeline, given each item's slot length
+     * (0 = skipped, null = not known yet). Returns null when not in a group
+     * or while any length is still unknown.
+     */
+    locate(slotLengthsMs: Array<number | null>, now: number = clockService.now()): TimelinePosition | null {
+        const group = this.group;
+        if (!group || slotLengthsMs.length === 0) return null;
+        if (slotLengthsMs.some((length) => length === null)) return null;
+
+        const lengths = slotLengthsMs as number[];
+        const cycle = lengths.reduce((sum, length) => sum + length, 0);
+        if (cycle <= 0) return null;
+
+        const elapsed = now - group.startTime;
+        if (elapsed < 0) {
+            const first = lengths.findIndex((length) => length > 0);
+            return {
+                index: first,
+                offsetMs: 0,
+                remainingMs: lengths[first] - elapsed,
+                boundaryMs: -elapsed,
+                started: false,
+            };
+        }
+
+        let t = elapsed % cycle;
+        for (let index = 0; index < lengths.length; index++) {
+            const length = lengths[index];
+            if (t < length) {
+                return {
+                    index,
+                    offsetMs: t,
+                    remainingMs: length - t,
+                    boundaryMs: Math.min(t, length - t),
+                    started: true,
+                };
+            }
+            t -= length;
+        }
+        return null;
+    }
+}
+
+export const syncService = new SyncService();
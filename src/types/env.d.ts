@@ -2,4 +2,6 @@ declare module '@env' {
     export const SOCKET_URL: string;
     export const DISCORD_WEBHOOK_URL: string;
     export const MAX_CACHE_MB: string;
+    export const MIN_FREE_MB: string;
+    export const LOG_HTTP_URL: string;
 }
@@ -1,16 +1,191 @@
 // Type definitions for the Signage Player app
 
+export type ContentType = 'video' | 'image' | 'web';
+
+/** Playlist item (video, image slide or web page). */
 export interface VideoSource {
     id?: string;
     url: string;
     name?: string;
+    // Defaults to 'video'
+    type?: ContentType;
+    // Display time in seconds for images and web pages; max play time for videos
+    duration?: number;
+    // Videos: trim points in seconds from the start of the file
+    startAt?: number;
+    endAt?: number;
+    // Times to play the item in a row per playlist loop (default 1)
+    repeat?: number;
+    // Dayparting: "YYYY-MM-DD" (whole local day) or ISO timestamp bounds
+    validFrom?: string;
+    validUntil?: string;
+    // Dayparting: daily local windows the item may play in (any day if unset)
+    timeWindows?: TimeWindow[];
+    // Web pages: reload every N seconds while shown
+    refreshInterval?: number;
+    // Web pages: skip to the next item if not loaded within N seconds
+    loadTimeout?: number;
+    // Expected file size in bytes; verified by CacheService when set
     size?: number;
+    // Expected hex SHA-256 of the file
+    sha256?: string;
+    // For {deg} URLs: expected size/hash per rotation rendition
+    renditions?: Partial<Record<Orientation, { size?: number; sha256?: string }>>;
+}
+
+/** Screen region with its own playlist. Rect is normalised to the screen (0–1). */
+export interface LayoutZone {
+    id: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    playlist: VideoSource[];
+    // Stacking order for overlapping zones (higher draws on top)
+    zIndex?: number;
+}
+
+/** Multi-zone screen layout; replaces the single full-screen playlist. */
+export interface Layout {
+    id?: string;
+    zones: LayoutZone[];
+}
+
+/** Screen corner/edge an overlay widget is pinned to. */
+export type WidgetAnchor =
+    | 'top-left'
+    | 'top'
+    | 'top-right'
+    | 'left'
+    | 'center'
+    | 'right'
+    | 'bottom-left'
+    | 'bottom'
+    | 'bottom-right';
+
+interface OverlayWidgetBase {
+    id: string;
+    // Defaults to 'top-left'
+    anchor?: WidgetAnchor;
+    // Offset from the anchor in dp, towards the screen centre
+    offsetX?: number;
+    offsetY?: number;
+    opacity?: number;
+}
+
+export interface ClockWidget extends OverlayWidgetBase {
+    type: 'clock';
+    // Defaults to '24h'
+    format?: '12h' | '24h';
+    showSeconds?: boolean;
+    showDate?: boolean;
+    color?: string;
+    backgroundColor?: string;
+    fontSize?: number;
+}
+
+export interface LogoWidget extends OverlayWidgetBase {
+    type: 'logo';
+    url: string;
+    width?: number;
+    height?: number;
+}
+
+export interface TickerWidget extends OverlayWidgetBase {
+    type: 'ticker';
+    text: string;
+    // Scroll speed in dp per second
+    speed?: number;
+    // Defaults to the full screen width
+    width?: number;
+    color?: string;
+    backgroundColor?: string;
+    fontSize?: number;
+}
+
+export interface QrWidget extends OverlayWidgetBase {
+    type: 'qr';
+    value: string;
+    size?: number;
+    color?: string;
+    backgroundColor?: string;
+}
+
+export type OverlayWidget = ClockWidget | LogoWidget | TickerWidget | QrWidget;
+
+/** Widgets drawn above the players (clock, logo, ticker, QR code). */
+export interface OverlayConfig {
+    widgets: OverlayWidget[];
+}
+
+/** Urgent full-screen message that overrides content and the sleep schedule. */
+export interface EmergencyAlert {
+    id: string;
+    title?: string;
+    message?: string;
+    // Image, video or web page shown full screen behind the text
+    media?: VideoSource;
+    // Epoch ms after which the alert clears itself (none = until cleared)
+    expiresAt?: number;
+    backgroundColor?: string;
+    textColor?: string;
+}
+
+/** Video wall group: members play one shared timeline from `startTime`. */
+export interface SyncGroup {
+    id: string;
+    // Epoch ms at which the first playlist item starts
+    startTime: number;
+}
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+/** On-window in local device time. An end at or before start runs past midnight. */
+export interface TimeWindow {
+    start: string; // "HH:mm"
+    end: string; // "HH:mm"
+}
+
+/** Dated override of the weekly hours (public holiday, special event). */
+export interface ScheduleException {
+    date: string; // "YYYY-MM-DD"
+    closed?: boolean;
+    windows?: TimeWindow[];
 }
 
 export interface Schedule {
     enabled: boolean;
-    wakeTime: string;
-    sleepTime: string;
+    // Legacy single daily window, used when `weekly` is absent
+    wakeTime?: string;
+    sleepTime?: string;
+    weekly?: Partial<Record<Weekday, TimeWindow[]>>;
+    exceptions?: ScheduleException[];
+}
+
+/** How media is fitted to its zone. */
+export type ResizeMode = 'contain' | 'cover' | 'stretch';
+
+/** ExoPlayer buffering, in ms. */
+export interface BufferSettings {
+    minBufferMs: number;
+    maxBufferMs: number;
+    bufferForPlaybackMs: number;
+    bufferForPlaybackAfterRebufferMs: number;
+}
+
+/** Player tuning pushed by the server (see SettingsService for defaults and bounds). */
+export interface DeviceSettings {
+    // Remount the player after this long (0 = never)
+    sessionRefreshMs: number;
+    // ...or after this many full playlist loops (0 = never)
+    sessionRefreshLoops: number;
+    // No playback progress for this long triggers the watchdog
+    watchdogStuckMs: number;
+    buffer: BufferSettings;
+    resizeMode: ResizeMode;
+    heartbeatIntervalMs: number;
+    // Wait before reconnecting after the socket drops
+    reconnectDelayMs: number;
 }
 
 export interface DeviceConfig {
@@ -18,43 +193,218 @@ export interface DeviceConfig {
     code: string;
     name: string;
     token: string;
-    orientation?: '0' | '90' | '180' | '270';
+    orientation?: Orientation;
     schedule?: Schedule;
 }
 
-export interface WebSocketMessage {
-    type:
-    | 'register'
-    | 'content'
-    | 'unpair'
-    | 'paired'
-    | 'heartbeat'
-    | 'auth'
-    | 'play'
-    | 'stop'
-    | 'hibernate'
-    | 'play_list'
-    | 'schedule_update'
-    | 'sync_state'
-    | 'reset';
-    status?: string;
-    payload?: {
-        id?: string;
-        token?: string;
-        name?: string;
-        code?: string;
-        deviceId?: string;
-        deviceName?: string;
-        url?: string;
-        orientation?: '0' | '90' | '180' | '270';
-        playlist?: VideoSource[];
-        schedule?: Schedule;
-        startTime?: number;
-        expiresIn?: number;
-        reason?: string;
-    };
-}
-
-export type AppState = 'loading' | 'pairing' | 'playing' | 'sleeping';
+// ── Socket protocol ──────────────────────────────────────────
+// Server → player messages on the `message` event, one payload type per
+// message type. SocketService validates them at runtime (MessageValidator)
+// before App sees them.
+
+/** Fields any content message may carry alongside its own. */
+export interface ContentExtras {
+    // Next scheduled playlist: prefetched and pinned in the cache
+    nextPlaylist?: VideoSource[];
+    // Sync group to join (null = leave); `startTime` is its reference time
+    syncGroup?: string | null;
+    startTime?: number;
+}
+
+export interface RegisterPayload {
+    // Pairing code to show
+    code: string;
+}
+
+export interface PairedPayload {
+    id: string;
+    token: string;
+    code?: string;
+    name?: string;
+}
+
+export interface AuthPayload extends ContentExtras {
+    id?: string;
+    code?: string;
+    name?: string;
+    // null returns every setting to its default
+    settings?: Partial<DeviceSettings> | null;
+    // null (like missing) means '0'
+    orientation?: Orientation | null;
+    schedule?: Schedule | null;
+    playlist?: VideoSource[];
+    // null switches back to the single full-screen playlist
+    layout?: Layout | null;
+}
+
+export interface PlayPayload {
+    url: string;
+}
+
+export interface PlayListPayload extends ContentExtras {
+    playlist: VideoSource[];
+}
+
+export interface SyncStatePayload extends ContentExtras {
+    settings?: Partial<DeviceSettings> | null;
+    // null returns to '0'
+    orientation?: Orientation | null;
+    schedule?: Schedule | null;
+    playlist?: VideoSource[];
+    layout?: Layout | null;
+}
+
+export interface ScheduleUpdatePayload {
+    schedule: Schedule | null;
+}
+
+export interface LayoutUpdatePayload extends ContentExtras {
+    layout: Layout | null;
+}
+
+export interface SettingsUpdatePayload {
+    // Fields left out use their defaults; null resets everything
+    settings: Partial<DeviceSettings> | null;
+}
+
+export interface OverlayUpdatePayload {
+    // null removes every overlay widget
+    overlay: OverlayConfig | null;
+}
+
+export interface AlertPayload {
+    alert: EmergencyAlert;
+}
+
+export interface ClearAlertPayload {
+    // Only clear this alert (any alert if omitted)
+    alertId?: string;
+}
+
+export interface GetLogsPayload {
+    // Last N lines and/or a time range (epoch ms, server clock)
+    lines?: number;
+    since?: number;
+    until?: number;
+    requestId?: string;
+}
+
+export type WebSocketMessage = (
+    | { type: 'register'; payload: RegisterPayload }
+    | { type: 'paired'; payload: PairedPayload }
+    | { type: 'auth'; payload: AuthPayload }
+    | { type: 'content'; payload?: ContentExtras }
+    | { type: 'heartbeat'; payload?: ContentExtras }
+    | { type: 'play'; payload: PlayPayload }
+    | { type: 'stop' }
+    | { type: 'hibernate' }
+    | { type: 'play_list'; payload: PlayListPayload }
+    | { type: 'sync_state'; payload: SyncStatePayload }
+    | { type: 'schedule_update'; payload: ScheduleUpdatePayload }
+    | { type: 'layout_update'; payload: LayoutUpdatePayload }
+    | { type: 'overlay_update'; payload: OverlayUpdatePayload }
+    | { type: 'settings_update'; payload: SettingsUpdatePayload }
+    | { type: 'alert'; payload: AlertPayload }
+    | { type: 'clear_alert'; payload?: ClearAlertPayload }
+    | { type: 'get_cache_inventory' }
+    | { type: 'get_logs'; payload?: GetLogsPayload }
+    | { type: 'unpair' }
+    | { type: 'reset' }
+) & {
+    // Correlation id: the player answers with a CommandAck carrying it
+    requestId?: string;
+};
+
+export type WebSocketMessageType = WebSocketMessage['type'];
+
+/** Outcome of applying a server command. */
+export interface CommandResult {
+    success: boolean;
+    error?: string;
+    details?: Record<string, unknown>;
+}
+
+/** `command_ack` sent for every message with a `requestId`. */
+export interface CommandAck extends CommandResult {
+    requestId: string;
+    type: string | null;
+    // Server clock, epoch ms
+    at: number;
+}
+
+/** Messages whose payload may carry ContentExtras. */
+export type ContentMessage = Extract<
+    WebSocketMessage,
+    { type: 'auth' | 'content' | 'heartbeat' | 'play_list' | 'sync_state' | 'layout_update' }
+>;
+
+/** Last accepted content, persisted so the player can boot offline. */
+export interface PlayerState {
+    playlist: VideoSource[];
+    layout?: Layout | null;
+    overlay?: OverlayConfig | null;
+    // Kept until cleared or expired, so a restart can't drop it
+    alert?: EmergencyAlert | null;
+    sync?: SyncGroup | null;
+    orientation: Orientation;
+    schedule: Schedule | null;
+    savedAt: number;
+}
+
+/** Download state of one playlist item, reported to the dashboard. */
+export interface CacheItemStatus {
+    url: string;
+    cached: boolean;
+    downloading: boolean;
+    failed: boolean;
+    bytesDownloaded: number;
+    bytesExpected: number | null;
+    attempts: number;
+    error?: string;
+}
+
+/** Payload of the `cache_inventory` socket event. */
+export interface CacheInventory {
+    items: CacheItemStatus[];
+    // Share of playlist items fully cached (0–100)
+    readyPercent: number;
+    bytesDownloaded: number;
+    bytesExpected: number | null;
+    cacheBytes: number;
+    freeBytes: number | null;
+    timestamp: number;
+}
+
+/** Proof-of-play: one showing of a playlist item. Times are server clock. */
+export interface PlayRecord {
+    // Unique per record, so the server can ignore re-sent batches
+    id: string;
+    itemId?: string;
+    url: string;
+    name?: string;
+    type: ContentType;
+    // Layout zone ('main' full screen, 'alert' for alert media)
+    zoneId?: string;
+    startedAt: number;
+    endedAt: number;
+    // Played to its end (not skipped, failed or interrupted)
+    completed: boolean;
+    source: 'cache' | 'network';
+    // Why an incomplete play stopped
+    error?: string;
+}
+
+/** Answer to `get_logs`: lines of the on-device log file, oldest first. */
+export interface LogUpload {
+    requestId?: string;
+    lines: string[];
+    // More lines matched than the upload limit allowed
+    truncated: boolean;
+    since?: number;
+    until?: number;
+}
+
+// 'alert' is display-only: an emergency alert covers whatever state is underneath
+export type AppState = 'loading' | 'pairing' | 'playing' | 'sleeping' | 'alert';
 
 export type Orientation = '0' | '90' | '180' | '270';